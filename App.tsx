@@ -2,37 +2,113 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { flushSync } from 'react-dom';
 import { Hero } from './components/Hero';
-import { InputArea } from './components/InputArea';
+import { InputArea, SelectedFile } from './components/InputArea';
 import { LivePreview } from './components/LivePreview';
-import { CreationHistory, Creation } from './components/CreationHistory';
+import { PlanReview } from './components/PlanEditor';
+import { CreationHistory, Creation, CreationInput, CreationSummary } from './components/CreationHistory';
+import { StorageManager } from './components/StorageManager';
+import { Notifications, Notification } from './components/Notifications';
 import { ErrorBoundary } from './components/ErrorBoundary';
-import { bringToLife, refineApp } from './services/gemini';
+import { bringToLife, planApp, refineApp, GenerationProgress, GenerationInput } from './services/gemini';
+import { createRevision, addRevision, revertToRevision, hydrateCreation } from './services/creations';
+import { isAbortError } from './services/retry';
+import { SandboxPermissions, grantsExtraAccess } from './services/sandbox';
+import { toAppData } from './services/appData';
+import { MathGameSpec, describeMathGame } from './services/mathGame';
+import { AppPlan } from './services/plan';
+import { captureThumbnail } from './services/thumbnail';
+import { validateHtml } from './services/validator';
+import { AppError, InvalidInputError, toAppError } from './services/errors';
+import { listCreations, loadCreation, saveCreation, saveThumbnail, updateCreationDetails, searchDocuments, CreationDetails, deleteCreations, loadAppData, saveAppData, loadGameSessions, saveGameSessions, migrateLegacyHistory, getStorageUsage, isQuotaExceeded, StorageUsage } from './services/storage';
 import { ArrowUpTrayIcon } from '@heroicons/react/24/solid';
 
+// Text-only creations are named after the start of their prompt
+const PROMPT_NAME_LENGTH = 40;
+const promptName = (prompt: string): string => {
+  const text = prompt.trim().replace(/\s+/g, ' ');
+  if (!text) return 'New Creation';
+  return text.length > PROMPT_NAME_LENGTH ? `${text.slice(0, PROMPT_NAME_LENGTH).trimEnd()}…` : text;
+};
+
+// A plan awaiting review; the inputs are already read so re-planning and building don't read the files again
+interface PendingPlan {
+  plan: AppPlan;
+  promptText: string;
+  inputs: CreationInput[];
+}
+
 const App: React.FC = () => {
   const [activeCreation, setActiveCreation] = useState<Creation | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
-  const [history, setHistory] = useState<Creation[]>([]);
+  const [isRefining, setIsRefining] = useState(false);
+  // Set while the model drafts a plan rather than building
+  const [isPlanning, setIsPlanning] = useState(false);
+  const [pendingPlan, setPendingPlan] = useState<PendingPlan | null>(null);
+  const [history, setHistory] = useState<CreationSummary[]>([]);
+  // Live progress (stage, thoughts, partial output) while a generation or refinement is streaming
+  const [progress, setProgress] = useState<GenerationProgress | null>(null);
   const importInputRef = useRef<HTMLInputElement>(null);
+  // Aborts the generation or refinement currently in flight
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Storage state: usage meter, and the eviction dialog opened manually or by a failed save
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [storageDialog, setStorageDialog] = useState<'manual' | 'quota' | null>(null);
+  const [pendingSave, setPendingSave] = useState<Creation | null>(null);
+
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+
+  // Creations already given a thumbnail attempt this session, and whether a backfill is running
+  const thumbnailAttemptsRef = useRef(new Set<string>());
+  const [isBackfillingThumbnails, setIsBackfillingThumbnails] = useState(false);
+
+  // The open creation as last rendered. Async steps apply their result to this rather than to the
+  // creation they started from, so changes made while they ran aren't overwritten.
+  const activeCreationRef = useRef(activeCreation);
+  activeCreationRef.current = activeCreation;
+
+  const notify = (notification: Omit<Notification, 'id'>) => {
+    setNotifications(prev => [...prev, { ...notification, id: crypto.randomUUID() }]);
+  };
+
+  // Stable so toast auto-dismiss timers aren't restarted on every render
+  const dismissNotification = useCallback((id: string) => {
+    setNotifications(prev => prev.filter(n => n.id !== id));
+  }, []);
+
+  // Show a typed error, offering a retry when the error says it may succeed
+  const notifyError = (error: unknown, retry?: () => void) => {
+    console.error(error);
+    const appError = toAppError(error);
+    notify({
+      tone: 'error',
+      title: appError.title,
+      message: appError.message,
+      action: appError.retryable && retry ? { label: 'Retry', onClick: retry } : undefined,
+    });
+  };
 
-  // Load history from local storage or fetch examples on mount
+  const refreshStorageUsage = () => {
+    getStorageUsage().then(setStorageUsage).catch(e => console.warn("Could not estimate storage usage", e));
+  };
+
+  // Load history from IndexedDB (migrating old localStorage data first) or fetch examples on mount
   useEffect(() => {
     const initHistory = async () => {
-      const saved = localStorage.getItem('gemini_app_history');
-      let loadedHistory: Creation[] = [];
+      try {
+        await migrateLegacyHistory();
+      } catch (e) {
+        notifyError(new AppError('unknown', "Couldn't migrate your archive", 'Older creations are still in local storage and will be migrated on the next load.', false, e));
+      }
 
-      if (saved) {
-        try {
-          const parsed = JSON.parse(saved);
-          loadedHistory = parsed.map((item: any) => ({
-              ...item,
-              timestamp: new Date(item.timestamp)
-          }));
-        } catch (e) {
-          console.error("Failed to load history", e);
-        }
+      let loadedHistory: CreationSummary[] = [];
+      try {
+        loadedHistory = await listCreations();
+      } catch (e) {
+        notifyError(new AppError('unknown', "Couldn't load your archive", 'This browser may block storage for this site, e.g. in private mode.', false, e));
       }
 
       if (loadedHistory.length > 0) {
@@ -50,45 +126,160 @@ const App: React.FC = () => {
                const res = await fetch(url);
                if (!res.ok) return null;
                const data = await res.json();
-               return {
-                   ...data,
-                   timestamp: new Date(data.timestamp || Date.now()),
-                   id: data.id || crypto.randomUUID()
-               };
+               return hydrateCreation(data);
            }));
            
            const validExamples = examples.filter((e): e is Creation => e !== null);
-           setHistory(validExamples);
+           for (const example of validExamples) {
+               await saveCreation(example);
+           }
+           setHistory(await listCreations());
         } catch (e) {
             console.error("Failed to load examples", e);
         }
       }
+      refreshStorageUsage();
     };
 
     initHistory();
   }, []);
 
-  // Save history when it changes
+  // Write a creation to IndexedDB and move its summary to the front of the archive.
+  // When the quota runs out, keep the creation around and offer to evict old ones.
+  const persistCreation = async (creation: Creation) => {
+    try {
+      const summary = await saveCreation(creation);
+      setHistory(prev => [summary, ...prev.filter(c => c.id !== summary.id)]);
+    } catch (e) {
+      if (isQuotaExceeded(e)) {
+        setPendingSave(creation);
+        setStorageDialog('quota');
+      } else {
+        notifyError(
+          new AppError('unknown', "Couldn't save creation", 'It is still open, but will be lost when you leave unless saving succeeds.', true, e),
+          () => persistCreation(creation)
+        );
+      }
+    }
+    refreshStorageUsage();
+  };
+
+  // Screenshot the current version for the archive. Dropped if the creation changed meanwhile.
+  const updateThumbnail = async (creation: Creation) => {
+    thumbnailAttemptsRef.current.add(creation.id);
+    try {
+      const thumbnail = await captureThumbnail(creation.html);
+      const summary = await saveThumbnail(creation.id, thumbnail, creation.timestamp);
+      if (!summary) return;
+      setHistory(prev => prev.map(c => (c.id === summary.id ? summary : c)));
+      // Later saves of the open creation must keep the thumbnail
+      setActiveCreation(prev => (
+        prev?.id === creation.id && prev.timestamp.getTime() === creation.timestamp.getTime() ? { ...prev, thumbnail } : prev
+      ));
+    } catch (e) {
+      console.warn("Couldn't capture a thumbnail", e);
+    }
+  };
+
+  // Imported, example and older creations have no thumbnail yet: capture them one by one in the background
   useEffect(() => {
-    if (history.length > 0) {
-        try {
-            localStorage.setItem('gemini_app_history', JSON.stringify(history));
-        } catch (e) {
-            console.warn("Local storage full or error saving history", e);
-        }
+    if (isBackfillingThumbnails) return;
+    const missing = history.find(c => !c.thumbnail && !thumbnailAttemptsRef.current.has(c.id));
+    if (!missing) return;
+
+    setIsBackfillingThumbnails(true);
+    thumbnailAttemptsRef.current.add(missing.id);
+    loadCreation(missing.id)
+      .then(creation => creation && updateThumbnail(creation))
+      .catch(e => console.warn("Couldn't load a creation for its thumbnail", e))
+      .finally(() => setIsBackfillingThumbnails(false));
+  }, [history, isBackfillingThumbnails]);
+
+  // Closes the preview if it shows one of these creations, before they are deleted. The render is
+  // flushed so the preview's pending app data and score saves are written first rather than after
+  // the delete, where they would bring back orphaned records. Returns whether it was open.
+  const closeIfOpen = (ids: string[]): boolean => {
+    const current = activeCreationRef.current;
+    if (!current || !ids.includes(current.id)) return false;
+    abortControllerRef.current?.abort();
+    activeCreationRef.current = null;
+    flushSync(() => setActiveCreation(null));
+    return true;
+  };
+
+  const handleEvict = async (ids: string[]) => {
+    try {
+      closeIfOpen(ids);
+      await deleteCreations(ids);
+      setHistory(prev => prev.filter(c => !ids.includes(c.id)));
+      setStorageDialog(null);
+      // Retry the save that ran out of space, unless it was evicted itself. It is cleared first
+      // so a retry that runs out of space again can queue it for the reopened dialog.
+      const retry = pendingSave;
+      setPendingSave(null);
+      if (retry && !ids.includes(retry.id)) {
+        await persistCreation(retry);
+      }
+    } catch (e) {
+      notifyError(new AppError('unknown', "Couldn't remove creations", 'Storage could not be cleaned up. Reload the page and try again.', false, e));
     }
-  }, [history]);
+    refreshStorageUsage();
+  };
+
+  const handleUpdateDetails = async (id: string, details: CreationDetails) => {
+    try {
+      const summary = await updateCreationDetails(id, details);
+      if (!summary) return;
+      setHistory(prev => prev.map(c => (c.id === id ? summary : c)));
+      setActiveCreation(prev => (prev?.id === id ? { ...prev, ...details } : prev));
+    } catch (e) {
+      notifyError(new AppError('unknown', "Couldn't update creation", 'Saving the change to storage failed.', true, e), () => handleUpdateDetails(id, details));
+    }
+  };
+
+  // Everything is read back before deleting so Undo can write it again unchanged
+  const handleDeleteCreation = async (summary: CreationSummary) => {
+    try {
+      // Left open, the next refine or edit of the creation would save it again
+      const wasOpen = closeIfOpen([summary.id]);
+      const [creation, appData, sessions] = await Promise.all([loadCreation(summary.id), loadAppData(summary.id), loadGameSessions(summary.id)]);
+      await deleteCreations([summary.id]);
+      setHistory(prev => prev.filter(c => c.id !== summary.id));
+      refreshStorageUsage();
+      if (!creation) return;
+      notify({
+        tone: 'info',
+        title: 'Creation deleted',
+        message: `"${summary.name}" was removed from your archive.`,
+        action: {
+          label: 'Undo',
+          onClick: async () => {
+            await persistCreation(creation);
+            await saveAppData(creation.id, appData).catch(e => console.error("Failed to restore app data", e));
+            await saveGameSessions(creation.id, sessions).catch(e => console.error("Failed to restore game sessions", e));
+            // Reopened only if nothing else took its place meanwhile
+            if (wasOpen && !activeCreationRef.current && !abortControllerRef.current) setActiveCreation(creation);
+          },
+        },
+      });
+    } catch (e) {
+      notifyError(new AppError('unknown', "Couldn't delete creation", 'Removing it from storage failed.', true, e), () => handleDeleteCreation(summary));
+    }
+  };
+
+  const handleCloseStorageDialog = () => {
+    setStorageDialog(null);
+    setPendingSave(null);
+  };
 
-  // Helper to convert file to base64
-  const fileToBase64 = (file: File): Promise<string> => {
+  // Helper to read a file as a data URL (e.g., "data:image/jpeg;base64,...")
+  const fileToDataUrl = (file: File): Promise<string> => {
     return new Promise((resolve, reject) => {
       const reader = new FileReader();
       reader.readAsDataURL(file);
       reader.onload = () => {
         if (typeof reader.result === 'string') {
-          // Remove the data URL prefix (e.g., "data:image/jpeg;base64,")
-          const base64 = reader.result.split(',')[1];
-          resolve(base64);
+          resolve(reader.result);
         } else {
           reject(new Error('Failed to convert file to base64'));
         }
@@ -97,74 +288,227 @@ const App: React.FC = () => {
     });
   };
 
-  const handleGenerate = async (promptText: string, file?: File) => {
+  // Inputs are stored as data URLs; the model takes the bare base64
+  const toGenerationInputs = (inputs: CreationInput[]): GenerationInput[] =>
+    inputs.map(input => ({ data: input.dataUrl.split(',')[1], mimeType: input.mimeType, caption: input.caption }));
+
+  const readInputs = (files: SelectedFile[]): Promise<CreationInput[]> =>
+    Promise.all(files.map(async ({ file, caption }) => ({
+      name: file.name,
+      mimeType: file.type.toLowerCase(),
+      // Store the full data URL for easy display
+      dataUrl: await fileToDataUrl(file),
+      caption: caption || undefined,
+    })));
+
+  // Runs a planning or generation step behind the loading screen, wired to Cancel
+  const runGeneration = async (step: (signal: AbortSignal) => Promise<void>, retry: () => void, planning = false) => {
     setIsGenerating(true);
+    setIsPlanning(planning);
     // Clear active creation to show loading state
     setActiveCreation(null);
+    setProgress(null);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
 
     try {
-      let imageBase64: string | undefined;
-      let mimeType: string | undefined;
-
-      if (file) {
-        imageBase64 = await fileToBase64(file);
-        mimeType = file.type.toLowerCase();
+      await step(controller.signal);
+    } catch (error) {
+      // Cancelling returns to the input screen (or the plan under review) without an error
+      if (!isAbortError(error)) {
+        notifyError(error, retry);
       }
-
-      const html = await bringToLife(promptText, imageBase64, mimeType);
-      
-      if (html) {
-        const newCreation: Creation = {
-          id: crypto.randomUUID(),
-          name: file ? file.name : 'New Creation',
-          html: html,
-          // Store the full data URL for easy display
-          originalImage: imageBase64 && mimeType ? `data:${mimeType};base64,${imageBase64}` : undefined,
-          timestamp: new Date(),
-        };
-        setActiveCreation(newCreation);
-        setHistory(prev => [newCreation, ...prev]);
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+        setIsGenerating(false);
+        setIsPlanning(false);
+        setProgress(null);
       }
+    }
+  };
 
-    } catch (error) {
-      console.error("Failed to generate:", error);
-      alert("Something went wrong while bringing your file to life. Please try again.");
-    } finally {
-      setIsGenerating(false);
+  const createFromInputs = async (promptText: string, inputs: CreationInput[], options: { mathGame?: MathGameSpec, plan?: AppPlan }, signal: AbortSignal) => {
+    const { html, validation, title, description, tags, notes } = await bringToLife(
+      promptText,
+      toGenerationInputs(inputs),
+      { onProgress: setProgress, signal, ...options }
+    );
+    
+    if (html) {
+      const initialRevision = createRevision(html, undefined, validation);
+      const newCreation: Creation = {
+        id: crypto.randomUUID(),
+        // The model names the app; the inputs only name it when it didn't
+        name: title
+          || (options.mathGame ? describeMathGame(options.mathGame)
+          : inputs.length > 1 ? `${inputs[0].name} +${inputs.length - 1} more`
+          : inputs[0]?.name ?? promptName(promptText)),
+        description: description || undefined,
+        notes: notes.length > 0 ? notes : undefined,
+        tags: tags.length > 0 ? tags : undefined,
+        prompt: promptText.trim() || undefined,
+        html: html,
+        inputs: inputs.length > 0 ? inputs : undefined,
+        mathGame: options.mathGame,
+        plan: options.plan,
+        validation,
+        timestamp: initialRevision.timestamp,
+        revisions: [initialRevision],
+      };
+      setActiveCreation(newCreation);
+      persistCreation(newCreation);
+      updateThumbnail(newCreation);
     }
   };
 
+  const draftPlan = async (promptText: string, inputs: CreationInput[], signal: AbortSignal) => {
+    const plan = await planApp(promptText, toGenerationInputs(inputs), { onProgress: setProgress, signal });
+    setPendingPlan({ plan, promptText, inputs });
+  };
+
+  const handleGenerate = (promptText: string, files: SelectedFile[] = [], mathGame?: MathGameSpec, planFirst = false) =>
+    runGeneration(async signal => {
+      const inputs = await readInputs(files);
+      if (planFirst) {
+        await draftPlan(promptText, inputs, signal);
+      } else {
+        await createFromInputs(promptText, inputs, { mathGame }, signal);
+      }
+    }, () => handleGenerate(promptText, files, mathGame, planFirst), planFirst);
+
+  const handleReplan = (pending: PendingPlan) =>
+    runGeneration(signal => draftPlan(pending.promptText, pending.inputs, signal), () => handleReplan(pending), true);
+
+  // The plan stays under review until the app is built, so a failed or cancelled build keeps the edits
+  const handleBuildFromPlan = (pending: PendingPlan) =>
+    runGeneration(async signal => {
+      await createFromInputs(pending.promptText, pending.inputs, { plan: pending.plan }, signal);
+      setPendingPlan(null);
+    }, () => handleBuildFromPlan(pending));
+
+  // Applies a change to the creation that is open now and saves it. Nothing happens if it was closed
+  // or replaced in the meantime. The ref is moved on at once so back-to-back changes build on each other.
+  const updateOpenCreation = (id: string, update: (creation: Creation) => Creation): Creation | null => {
+      const current = activeCreationRef.current;
+      if (current?.id !== id) return null;
+      const updatedCreation = update(current);
+      activeCreationRef.current = updatedCreation;
+      setActiveCreation(updatedCreation);
+      persistCreation(updatedCreation);
+      return updatedCreation;
+  };
+
   const handleRefine = async (instruction: string) => {
       if (!activeCreation) return;
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+      setIsRefining(true);
 
       try {
-          const refinedHtml = await refineApp(activeCreation.html, instruction);
+          setProgress(null);
+          const refined = await refineApp(activeCreation.html, instruction, { onProgress: setProgress, signal: controller.signal });
           
-          const updatedCreation = {
-              ...activeCreation,
-              html: refinedHtml,
-              timestamp: new Date() // Update timestamp to show it was modified
-          };
+          // Keep every previous version so a bad refinement can be reverted
+          const updatedCreation = updateOpenCreation(activeCreation.id, creation =>
+              addRevision(creation, refined.html, instruction, refined.validation)
+          );
+          if (updatedCreation) updateThumbnail(updatedCreation);
 
-          setActiveCreation(updatedCreation);
-          
-          // Update it in history as well (replace the old version with the refined one, or add new? 
-          // Replacing feels more natural for "Iterating")
-          setHistory(prev => prev.map(c => c.id === updatedCreation.id ? updatedCreation : c));
+      } catch (error) {
+          // The refinement bar keeps the instruction, so a cancel needs no message
+          if (!isAbortError(error)) {
+              notifyError(error, () => handleRefine(instruction));
+          }
+      } finally {
+          if (abortControllerRef.current === controller) {
+              abortControllerRef.current = null;
+              setIsRefining(false);
+              setProgress(null);
+          }
+      }
+  };
+
+  // Rebuilds the app from an edited math game spec or plan, from scratch rather than as a refinement, and keeps it as a new version
+  const handleRegenerate = async (changes: { mathGame?: MathGameSpec, plan?: AppPlan }) => {
+      if (!activeCreation) return;
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+      setIsRefining(true);
+
+      try {
+          setProgress(null);
+          const regenerated = await bringToLife(
+              activeCreation.prompt ?? '',
+              toGenerationInputs(activeCreation.inputs ?? []),
+              { onProgress: setProgress, signal: controller.signal, mathGame: activeCreation.mathGame, plan: activeCreation.plan, ...changes }
+          );
+
+          const instruction = changes.mathGame ? `Regenerated as ${describeMathGame(changes.mathGame)}` : 'Rebuilt from the edited plan';
+          // The name and tags may have been edited by the user, so only the model's account of the new build is taken
+          const updatedCreation = updateOpenCreation(activeCreation.id, creation => ({
+              ...addRevision(creation, regenerated.html, instruction, regenerated.validation),
+              ...changes,
+              description: regenerated.description || creation.description,
+              notes: regenerated.notes.length > 0 ? regenerated.notes : undefined,
+          }));
+          if (updatedCreation) updateThumbnail(updatedCreation);
 
       } catch (error) {
-          console.error("Failed to refine:", error);
-          alert("Failed to refine the application. Please try again.");
+          if (!isAbortError(error)) {
+              notifyError(error, () => handleRegenerate(changes));
+          }
+      } finally {
+          if (abortControllerRef.current === controller) {
+              abortControllerRef.current = null;
+              setIsRefining(false);
+              setProgress(null);
+          }
       }
   };
 
+  const handleRevert = (revisionId: string) => {
+      if (!activeCreation || isRefining) return;
+      const updatedCreation = updateOpenCreation(activeCreation.id, creation => revertToRevision(creation, revisionId));
+      if (updatedCreation) updateThumbnail(updatedCreation);
+  };
+
+  // Hand edits are validated like generated html and saved as a new version
+  const handleSaveEdit = (html: string) => {
+      if (!activeCreation) return;
+      const { html: validatedHtml, report } = validateHtml(html);
+      const updatedCreation = updateOpenCreation(activeCreation.id, creation => addRevision(creation, validatedHtml, 'Edited the code', report));
+      if (updatedCreation) updateThumbnail(updatedCreation);
+  };
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // Sandbox settings are not a new version of the app, so no revision is recorded
+  const handlePermissionsChange = (permissions: SandboxPermissions) => {
+      if (!activeCreation) return;
+      updateOpenCreation(activeCreation.id, creation => ({ ...creation, permissions }));
+  };
+
   const handleReset = () => {
+    handleCancel();
     setActiveCreation(null);
     setIsGenerating(false);
   };
 
-  const handleSelectCreation = (creation: Creation) => {
-    setActiveCreation(creation);
+  // Html and inputs are only read from storage once a creation is opened
+  const handleSelectCreation = async (summary: CreationSummary) => {
+    try {
+      const creation = await loadCreation(summary.id);
+      if (creation) {
+        setActiveCreation(creation);
+      } else {
+        notifyError(new AppError('unknown', "Couldn't open creation", `"${summary.name}" is no longer in storage.`, false));
+      }
+    } catch (e) {
+      notifyError(new AppError('unknown', "Couldn't open creation", 'Reading it from storage failed.', true, e), () => handleSelectCreation(summary));
+    }
   };
 
   const handleImportClick = () => {
@@ -183,26 +527,37 @@ const App: React.FC = () => {
             
             // Basic validation
             if (parsed.html && parsed.name) {
-                const importedCreation: Creation = {
-                    ...parsed,
-                    timestamp: new Date(parsed.timestamp || Date.now()),
-                    id: parsed.id || crypto.randomUUID()
-                };
-                
-                // Add to history if not already there (by ID check)
-                setHistory(prev => {
-                    const exists = prev.some(c => c.id === importedCreation.id);
-                    return exists ? prev : [importedCreation, ...prev];
+                // A thumbnail in the file may not match its html, so it is captured again
+                const { appData, thumbnail, ...artifact } = parsed;
+                const hydrated = hydrateCreation(artifact);
+                // Validation reports in the file may be stale or made up, so every version is checked again
+                const { html, report } = validateHtml(hydrated.html);
+                const revisions = hydrated.revisions?.map((revision, i, all) => {
+                    if (i === all.length - 1) return { ...revision, html, validation: report };
+                    const checked = validateHtml(revision.html);
+                    return { ...revision, html: checked.html, validation: checked.report };
                 });
+                const importedCreation: Creation = { ...hydrated, html, validation: report, revisions };
+                if (grantsExtraAccess(artifact.permissions)) {
+                    notify({
+                        tone: 'info',
+                        title: 'Access not imported',
+                        message: `"${importedCreation.name}" was exported with extra sandbox access. It runs with the defaults until you grant it again in its sandbox settings.`,
+                    });
+                }
+                
+                // Saving by ID replaces an existing copy instead of duplicating it
+                persistCreation(importedCreation);
 
-                // Set as active immediately
-                setActiveCreation(importedCreation);
+                // The preview loads app data when it opens, so it has to be stored first
+                saveAppData(importedCreation.id, toAppData(appData))
+                    .catch(err => console.error("Failed to import app data", err))
+                    .then(() => setActiveCreation(importedCreation));
             } else {
-                alert("Invalid creation file format.");
+                notifyError(new InvalidInputError("This file isn't a creation export: it needs at least a name and html."));
             }
         } catch (err) {
-            console.error("Import error", err);
-            alert("Failed to import creation.");
+            notifyError(new InvalidInputError("Couldn't read this file. Choose a .json artifact exported from this app."));
         }
         // Reset input
         if (importInputRef.current) importInputRef.current.value = '';
@@ -237,7 +592,19 @@ const App: React.FC = () => {
           {/* 2. Input Section */}
           <div className="w-full flex justify-center mb-8">
               <ErrorBoundary>
-                <InputArea onGenerate={handleGenerate} isGenerating={isGenerating} disabled={isFocused} />
+                {/* Kept mounted under a plan review so starting over returns to the same prompt and files */}
+                <div className={pendingPlan ? 'hidden' : 'contents'}>
+                  <InputArea onGenerate={handleGenerate} onError={notifyError} isGenerating={isGenerating} disabled={isFocused} />
+                </div>
+                {pendingPlan && (
+                  <PlanReview
+                    plan={pendingPlan.plan}
+                    onChange={plan => setPendingPlan(prev => prev && { ...prev, plan })}
+                    onBuild={() => handleBuildFromPlan(pendingPlan)}
+                    onReplan={() => handleReplan(pendingPlan)}
+                    onDiscard={() => setPendingPlan(null)}
+                  />
+                )}
               </ErrorBoundary>
           </div>
 
@@ -246,7 +613,15 @@ const App: React.FC = () => {
         {/* 3. History Section & Footer - Stays at bottom */}
         <div className="flex-shrink-0 pb-6 w-full mt-auto flex flex-col items-center gap-6">
             <div className="w-full px-2 md:px-0">
-                <CreationHistory history={history} onSelect={handleSelectCreation} />
+                <CreationHistory
+                    history={history}
+                    storageUsage={storageUsage}
+                    onSelect={handleSelectCreation}
+                    onUpdate={handleUpdateDetails}
+                    onDelete={handleDeleteCreation}
+                    onSearchContent={searchDocuments}
+                    onManageStorage={() => setStorageDialog('manual')}
+                />
             </div>
             
             <a 
@@ -265,12 +640,32 @@ const App: React.FC = () => {
         <LivePreview
             creation={activeCreation}
             isLoading={isGenerating}
+            isPlanning={isPlanning}
+            isRefining={isRefining}
+            progress={progress}
             isFocused={isFocused}
             onReset={handleReset}
             onRefine={handleRefine}
+            onRevert={handleRevert}
+            onSaveEdit={handleSaveEdit}
+            onRegenerate={handleRegenerate}
+            onPermissionsChange={handlePermissionsChange}
+            onCancel={handleCancel}
+            onError={notifyError}
         />
       </ErrorBoundary>
 
+      <StorageManager
+          isOpen={storageDialog !== null}
+          quotaExceeded={storageDialog === 'quota'}
+          history={history}
+          storageUsage={storageUsage}
+          onEvict={handleEvict}
+          onClose={handleCloseStorageDialog}
+      />
+
+      <Notifications notifications={notifications} onDismiss={dismissNotification} />
+
       {/* Subtle Import Button (Bottom Right) */}
       <div className="fixed bottom-4 right-4 z-50">
         <button 
@@ -0,0 +1,121 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { WrenchScrewdriverIcon, CheckCircleIcon } from '@heroicons/react/24/outline';
+import { AnalysisFinding, FINDING_CATEGORIES, FINDING_SEVERITIES } from '../services/gemini';
+
+type SortKey = 'severity' | 'category' | 'order';
+
+interface AnalysisFindingsProps {
+  findings: AnalysisFinding[];
+  disabled: boolean; // While a refinement is running
+  onApply: (finding: AnalysisFinding) => void;
+}
+
+const SORT_OPTIONS: { key: SortKey, label: string }[] = [
+  { key: 'severity', label: 'Severity' },
+  { key: 'category', label: 'Category' },
+  { key: 'order', label: 'As reported' },
+];
+
+const SEVERITY_STYLES: Record<AnalysisFinding['severity'], string> = {
+  critical: 'bg-red-500/15 text-red-400 border-red-500/30',
+  high: 'bg-orange-500/15 text-orange-400 border-orange-500/30',
+  medium: 'bg-yellow-500/15 text-yellow-400 border-yellow-500/30',
+  low: 'bg-zinc-500/15 text-zinc-400 border-zinc-500/30',
+};
+
+const CATEGORY_LABELS: Record<AnalysisFinding['category'], string> = {
+  'bug': 'Bug',
+  'performance': 'Performance',
+  'accessibility': 'Accessibility',
+  'best-practice': 'Best practice',
+  'code-quality': 'Code quality',
+};
+
+// Ties keep the order the model reported them in (Array.prototype.sort is stable)
+const sortFindings = (findings: AnalysisFinding[], key: SortKey): AnalysisFinding[] => {
+  if (key === 'order') return findings;
+  const rank = key === 'severity'
+    ? (f: AnalysisFinding) => FINDING_SEVERITIES.indexOf(f.severity)
+    : (f: AnalysisFinding) => FINDING_CATEGORIES.indexOf(f.category);
+  return [...findings].sort((a, b) => rank(a) - rank(b));
+};
+
+export const AnalysisFindings: React.FC<AnalysisFindingsProps> = ({ findings, disabled, onApply }) => {
+  const [sortKey, setSortKey] = useState<SortKey>('severity');
+
+  if (findings.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-20 space-y-3 text-zinc-500">
+        <CheckCircleIcon className="w-8 h-8 text-green-400/80" />
+        <span className="text-sm">No issues found.</span>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <span className="text-xs font-mono text-zinc-500">
+          {findings.length} {findings.length === 1 ? 'finding' : 'findings'}
+        </span>
+        <div className="flex items-center space-x-1 text-[11px]">
+          <span className="text-zinc-600 mr-1">Sort by</span>
+          {SORT_OPTIONS.map(option => (
+            <button
+              key={option.key}
+              onClick={() => setSortKey(option.key)}
+              className={`px-2 py-1 rounded-md transition-colors ${sortKey === option.key ? 'bg-zinc-800 text-zinc-100' : 'text-zinc-500 hover:text-zinc-300'}`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <ul className="space-y-3">
+        {sortFindings(findings, sortKey).map(finding => (
+          <li key={finding.id} className="bg-zinc-900/60 border border-zinc-800 rounded-lg p-4">
+            <div className="flex items-start justify-between gap-4">
+              <div className="min-w-0">
+                <div className="flex items-center space-x-2 mb-1.5">
+                  <span className={`text-[10px] font-mono uppercase px-1.5 py-0.5 rounded border ${SEVERITY_STYLES[finding.severity]}`}>
+                    {finding.severity}
+                  </span>
+                  <span className="text-[10px] font-mono uppercase text-zinc-500">
+                    {CATEGORY_LABELS[finding.category]}
+                  </span>
+                </div>
+                <h3 className="text-sm font-medium text-zinc-100">{finding.title}</h3>
+                {finding.description && (
+                  <p className="text-xs text-zinc-400 mt-1 leading-relaxed">{finding.description}</p>
+                )}
+              </div>
+              <button
+                onClick={() => onApply(finding)}
+                disabled={disabled}
+                className="shrink-0 flex items-center space-x-1.5 px-2.5 py-1.5 bg-blue-600 hover:bg-blue-500 text-white text-xs font-medium rounded-md transition-colors disabled:opacity-40 disabled:hover:bg-blue-600"
+                title="Create a new version with this fix applied"
+              >
+                <WrenchScrewdriverIcon className="w-3.5 h-3.5" />
+                <span>Apply</span>
+              </button>
+            </div>
+
+            {finding.snippet && (
+              <pre className="mt-3 p-2.5 bg-black/40 border border-zinc-800 rounded text-[11px] leading-relaxed text-zinc-300 font-mono overflow-x-auto whitespace-pre">
+                {finding.snippet}
+              </pre>
+            )}
+            <p className="mt-3 text-xs text-zinc-300 leading-relaxed">
+              <span className="text-blue-400 font-medium">Fix: </span>{finding.fix}
+            </p>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
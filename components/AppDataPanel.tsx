@@ -0,0 +1,176 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { XMarkIcon, TrashIcon, ArrowPathIcon } from '@heroicons/react/24/outline';
+import { AppData, appDataSize, applyStorageMessage, isStorageMessage } from '../services/appData';
+import { loadAppData, saveAppData } from '../services/storage';
+import { formatBytes } from './CreationHistory';
+
+// Games can write on every frame, so writes are batched before hitting IndexedDB
+const SAVE_DELAY_MS = 500;
+
+// Keeps the creation's app data in sync with what the preview writes through its shimmed
+// localStorage. `version` changes whenever the preview has to reload with different data
+// (first load, reset, a deleted key); ordinary writes from the app never reload it.
+export function useAppData(creationId: string | undefined, frameRef: React.RefObject<HTMLIFrameElement | null>) {
+  const [data, setData] = useState<AppData>({});
+  const [loadedId, setLoadedId] = useState<string | null>(null);
+  const [version, setVersion] = useState(0);
+  const dataRef = useRef<AppData>({});
+  const pendingSaveRef = useRef<{ id: string; data: AppData; timeout: ReturnType<typeof setTimeout> } | null>(null);
+
+  const flushSave = () => {
+    const pending = pendingSaveRef.current;
+    if (!pending) return;
+    clearTimeout(pending.timeout);
+    pendingSaveRef.current = null;
+    saveAppData(pending.id, pending.data).catch(e => console.error("Failed to save app data", e));
+  };
+
+  const scheduleSave = (id: string, next: AppData) => {
+    if (pendingSaveRef.current) clearTimeout(pendingSaveRef.current.timeout);
+    pendingSaveRef.current = { id, data: next, timeout: setTimeout(flushSave, SAVE_DELAY_MS) };
+  };
+
+  const replaceData = (next: AppData) => {
+    dataRef.current = next;
+    setData(next);
+  };
+
+  useEffect(() => {
+    if (!creationId) return;
+    let isCancelled = false;
+    loadAppData(creationId)
+      .catch(e => {
+        console.error("Failed to load app data", e);
+        return {};
+      })
+      .then(loaded => {
+        if (isCancelled) return;
+        replaceData(loaded);
+        setLoadedId(creationId);
+        setVersion(v => v + 1);
+      });
+    // Writes still waiting when switching creations belong to the previous one
+    return () => {
+      isCancelled = true;
+      flushSave();
+    };
+  }, [creationId]);
+
+  useEffect(() => {
+    if (!creationId) return;
+    const handleMessage = (event: MessageEvent) => {
+      const frame = frameRef.current;
+      if (!frame || event.source !== frame.contentWindow || !isStorageMessage(event.data)) return;
+      const next = applyStorageMessage(dataRef.current, event.data);
+      replaceData(next);
+      scheduleSave(creationId, next);
+    };
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, [creationId, frameRef]);
+
+  const update = (next: AppData) => {
+    if (!creationId) return;
+    replaceData(next);
+    if (pendingSaveRef.current) clearTimeout(pendingSaveRef.current.timeout);
+    pendingSaveRef.current = null;
+    saveAppData(creationId, next).catch(e => console.error("Failed to save app data", e));
+    setVersion(v => v + 1);
+  };
+
+  return {
+    data,
+    version,
+    isReady: !!creationId && loadedId === creationId,
+    // Latest data, read when a document is built so a reload picks up everything saved so far
+    snapshot: () => dataRef.current,
+    reset: () => update({}),
+    removeKey: (key: string) => {
+      const { [key]: _removed, ...rest } = dataRef.current;
+      update(rest);
+    },
+  };
+}
+
+interface AppDataPanelProps {
+  data: AppData;
+  onReset: () => void;
+  onRemoveKey: (key: string) => void;
+  onClose: () => void;
+}
+
+// Show JSON values indented, anything else as stored
+const formatValue = (value: string): string => {
+  try {
+    const parsed = JSON.parse(value);
+    return typeof parsed === 'object' && parsed !== null ? JSON.stringify(parsed, null, 2) : value;
+  } catch {
+    return value;
+  }
+};
+
+export const AppDataPanel: React.FC<AppDataPanelProps> = ({ data, onReset, onRemoveKey, onClose }) => {
+  const [confirmReset, setConfirmReset] = useState(false);
+  const keys = Object.keys(data).sort();
+
+  return (
+    <div className="absolute top-3 right-3 z-20 w-[28rem] max-w-[calc(100%-1.5rem)] max-h-[50%] flex flex-col bg-zinc-950/95 backdrop-blur-md border border-zinc-800 rounded-lg shadow-2xl animate-in fade-in slide-in-from-top-1 duration-150">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-zinc-800 shrink-0">
+        <div className="flex items-center space-x-2">
+          <span className="text-[11px] font-mono uppercase tracking-wider text-zinc-400">App Data</span>
+          <span className="text-[10px] font-mono text-zinc-600">
+            {keys.length} {keys.length === 1 ? 'key' : 'keys'} · {formatBytes(appDataSize(data))}
+          </span>
+        </div>
+        <div className="flex items-center space-x-1">
+          {keys.length > 0 && (
+            <button
+              onClick={() => {
+                if (!confirmReset) return setConfirmReset(true);
+                setConfirmReset(false);
+                onReset();
+              }}
+              onBlur={() => setConfirmReset(false)}
+              className={`flex items-center space-x-1 px-2 py-1 text-[11px] font-medium rounded transition-colors ${confirmReset ? 'bg-red-500/20 text-red-300' : 'text-zinc-400 hover:text-zinc-200 hover:bg-zinc-800'}`}
+              title="Delete everything this app saved and restart it"
+            >
+              <ArrowPathIcon className="w-3.5 h-3.5" />
+              <span>{confirmReset ? 'Confirm reset' : 'Reset app data'}</span>
+            </button>
+          )}
+          <button onClick={onClose} className="p-1 text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800 rounded transition-colors" title="Close">
+            <XMarkIcon className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      </div>
+
+      {keys.length === 0 ? (
+        <p className="px-3 py-6 text-center text-xs text-zinc-600">
+          This app hasn't saved anything. Data it writes to localStorage appears here and is included in exports.
+        </p>
+      ) : (
+        <ul className="overflow-y-auto divide-y divide-zinc-900 font-mono text-[11px]">
+          {keys.map(key => (
+            <li key={key} className="group px-3 py-2">
+              <div className="flex items-center justify-between">
+                <span className="text-blue-300 truncate" title={key}>{key}</span>
+                <button
+                  onClick={() => onRemoveKey(key)}
+                  className="p-0.5 text-zinc-600 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                  title="Delete key"
+                >
+                  <TrashIcon className="w-3.5 h-3.5" />
+                </button>
+              </div>
+              <pre className="mt-1 max-h-32 overflow-auto text-zinc-400 whitespace-pre-wrap break-all">{formatValue(data[key])}</pre>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,246 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { MagnifyingGlassIcon, Bars3BottomLeftIcon, ArrowUturnLeftIcon, ChevronUpIcon, ChevronDownIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { highlightHtml, highlightMatches } from '../services/highlight';
+import { formatHtml } from '../services/format';
+
+interface CodeEditorProps {
+  value: string;
+  isDirty: boolean;
+  onChange: (value: string) => void;
+  onSave: () => void;
+  onDiscard: () => void;
+}
+
+const INDENT = '  ';
+// Find stops counting here so a one-letter query can't stall typing in a large file
+const MAX_MATCHES = 1000;
+
+// Layers under the textarea must lay text out identically to it
+const TEXT_STYLE = 'font-mono text-[13px] leading-5 whitespace-pre p-3';
+
+function findMatches(text: string, query: string, caseSensitive: boolean): number[] {
+  if (!query) return [];
+  const haystack = caseSensitive ? text : text.toLowerCase();
+  const needle = caseSensitive ? query : query.toLowerCase();
+  const matches: number[] = [];
+  for (let i = haystack.indexOf(needle); i !== -1 && matches.length < MAX_MATCHES; i = haystack.indexOf(needle, i + needle.length)) {
+    matches.push(i);
+  }
+  return matches;
+}
+
+// A plain textarea with transparent text over a highlighted copy of the code. The browser
+// keeps doing selection, undo and IME input; the layers underneath only mirror its scroll.
+export const CodeEditor: React.FC<CodeEditorProps> = ({ value, isDirty, onChange, onSave, onDiscard }) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const gutterRef = useRef<HTMLDivElement>(null);
+  const layersRef = useRef<HTMLDivElement>(null);
+  const findInputRef = useRef<HTMLInputElement>(null);
+  const charRef = useRef<HTMLSpanElement>(null);
+
+  const [showFind, setShowFind] = useState(false);
+  const [query, setQuery] = useState('');
+  const [replacement, setReplacement] = useState('');
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [activeMatch, setActiveMatch] = useState(0);
+
+  const highlighted = useMemo(() => highlightHtml(value), [value]);
+  const matches = useMemo(() => (showFind ? findMatches(value, query, caseSensitive) : []), [value, query, caseSensitive, showFind]);
+  const currentMatch = matches.length > 0 ? Math.min(activeMatch, matches.length - 1) : -1;
+  const lineCount = useMemo(() => value.split('\n').length, [value]);
+
+  useEffect(() => {
+    if (showFind) findInputRef.current?.select();
+  }, [showFind]);
+
+  const syncScroll = () => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    if (layersRef.current) layersRef.current.style.transform = `translate(${-textarea.scrollLeft}px, ${-textarea.scrollTop}px)`;
+    if (gutterRef.current) gutterRef.current.style.transform = `translateY(${-textarea.scrollTop}px)`;
+  };
+
+  // Selects a match without taking focus from the find bar, and scrolls it to the middle
+  const revealMatch = (index: number) => {
+    const textarea = textareaRef.current;
+    if (!textarea || matches.length === 0) return;
+    const wrapped = (index + matches.length) % matches.length;
+    setActiveMatch(wrapped);
+    const start = matches[wrapped];
+    textarea.setSelectionRange(start, start + query.length);
+
+    const before = value.slice(0, start);
+    const line = before.split('\n').length - 1;
+    const column = start - (before.lastIndexOf('\n') + 1);
+    const lineHeight = parseFloat(getComputedStyle(textarea).lineHeight) || 20;
+    const charWidth = charRef.current?.getBoundingClientRect().width ?? 8;
+    textarea.scrollTop = line * lineHeight - textarea.clientHeight / 2;
+    const x = column * charWidth;
+    if (x < textarea.scrollLeft || x > textarea.scrollLeft + textarea.clientWidth - 80) {
+      textarea.scrollLeft = Math.max(0, x - textarea.clientWidth / 2);
+    }
+    syncScroll();
+  };
+
+  const replaceCurrent = () => {
+    if (currentMatch === -1) return;
+    const start = matches[currentMatch];
+    onChange(value.slice(0, start) + replacement + value.slice(start + query.length));
+  };
+
+  const replaceAll = () => {
+    if (matches.length === 0) return;
+    let next = value;
+    for (let i = matches.length - 1; i >= 0; i--) {
+      next = next.slice(0, matches[i]) + replacement + next.slice(matches[i] + query.length);
+    }
+    onChange(next);
+  };
+
+  const closeFind = () => {
+    setShowFind(false);
+    textareaRef.current?.focus();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    const mod = e.metaKey || e.ctrlKey;
+    if (mod && e.key.toLowerCase() === 's') {
+      e.preventDefault();
+      if (isDirty) onSave();
+    } else if (mod && e.key.toLowerCase() === 'f') {
+      e.preventDefault();
+      const { selectionStart, selectionEnd } = e.currentTarget;
+      const selected = value.slice(selectionStart, selectionEnd);
+      if (selected && !selected.includes('\n')) setQuery(selected);
+      setShowFind(true);
+      findInputRef.current?.select();
+    } else if (e.key === 'Tab' && !e.shiftKey && !mod) {
+      e.preventDefault();
+      // insertText keeps the edit on the browser's undo stack, unlike setting the value
+      if (!document.execCommand('insertText', false, INDENT)) {
+        e.currentTarget.setRangeText(INDENT, e.currentTarget.selectionStart, e.currentTarget.selectionEnd, 'end');
+        onChange(e.currentTarget.value);
+      }
+    }
+  };
+
+  const handleFindKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      revealMatch(currentMatch + (e.shiftKey ? -1 : 1));
+    } else if (e.key === 'Escape') {
+      closeFind();
+    }
+  };
+
+  const toolbarButton = 'flex items-center space-x-1 px-2 py-1 rounded text-[11px] font-medium transition-colors';
+
+  return (
+    <div className="w-full h-full flex flex-col bg-[#0c0c0e]">
+      <div className="flex items-center justify-between px-3 py-1.5 border-b border-zinc-800 shrink-0">
+        <div className="flex items-center space-x-2">
+          <span className="text-[11px] font-mono text-zinc-400">index.html</span>
+          {isDirty && <span className="w-1.5 h-1.5 rounded-full bg-yellow-400" title="Unsaved changes" />}
+        </div>
+        <div className="flex items-center space-x-1">
+          <button onClick={() => (showFind ? closeFind() : setShowFind(true))} className={`${toolbarButton} ${showFind ? 'bg-zinc-800 text-zinc-100' : 'text-zinc-400 hover:text-zinc-200 hover:bg-zinc-800'}`} title="Find and replace (Ctrl+F)">
+            <MagnifyingGlassIcon className="w-3.5 h-3.5" />
+          </button>
+          <button onClick={() => onChange(formatHtml(value))} className={`${toolbarButton} text-zinc-400 hover:text-zinc-200 hover:bg-zinc-800`} title="Re-indent the code">
+            <Bars3BottomLeftIcon className="w-3.5 h-3.5" />
+            <span>Format</span>
+          </button>
+          {isDirty && (
+            <button onClick={onDiscard} className={`${toolbarButton} text-zinc-400 hover:text-zinc-200 hover:bg-zinc-800`} title="Go back to the saved version">
+              <ArrowUturnLeftIcon className="w-3.5 h-3.5" />
+              <span>Discard</span>
+            </button>
+          )}
+          <button onClick={onSave} disabled={!isDirty} className={`${toolbarButton} bg-blue-600 text-white hover:bg-blue-500 disabled:opacity-40 disabled:pointer-events-none`} title="Save as a new version (Ctrl+S)">
+            Save
+          </button>
+        </div>
+      </div>
+
+      {showFind && (
+        <div className="flex flex-wrap items-center gap-1.5 px-3 py-1.5 border-b border-zinc-800 bg-zinc-950 shrink-0">
+          <input
+            ref={findInputRef}
+            value={query}
+            onChange={(e) => { setQuery(e.target.value); setActiveMatch(0); }}
+            onKeyDown={handleFindKeyDown}
+            placeholder="Find"
+            className="w-40 bg-zinc-900 border border-zinc-800 rounded px-2 py-0.5 text-xs font-mono text-zinc-200 placeholder-zinc-600 focus:outline-none focus:border-zinc-600"
+          />
+          <button
+            onClick={() => setCaseSensitive(!caseSensitive)}
+            className={`px-1.5 py-0.5 rounded text-[11px] font-mono ${caseSensitive ? 'bg-zinc-700 text-zinc-100' : 'text-zinc-500 hover:text-zinc-300'}`}
+            title="Match case"
+          >
+            Aa
+          </button>
+          <span className="w-16 text-[10px] font-mono text-zinc-500 tabular-nums">
+            {query ? `${currentMatch + 1}/${matches.length}${matches.length === MAX_MATCHES ? '+' : ''}` : ''}
+          </span>
+          <button onClick={() => revealMatch(currentMatch - 1)} disabled={matches.length === 0} className="p-0.5 text-zinc-400 hover:text-zinc-200 disabled:opacity-30" title="Previous (Shift+Enter)">
+            <ChevronUpIcon className="w-3.5 h-3.5" />
+          </button>
+          <button onClick={() => revealMatch(currentMatch + 1)} disabled={matches.length === 0} className="p-0.5 text-zinc-400 hover:text-zinc-200 disabled:opacity-30" title="Next (Enter)">
+            <ChevronDownIcon className="w-3.5 h-3.5" />
+          </button>
+          <input
+            value={replacement}
+            onChange={(e) => setReplacement(e.target.value)}
+            onKeyDown={(e) => e.key === 'Escape' && closeFind()}
+            placeholder="Replace"
+            className="w-40 bg-zinc-900 border border-zinc-800 rounded px-2 py-0.5 text-xs font-mono text-zinc-200 placeholder-zinc-600 focus:outline-none focus:border-zinc-600"
+          />
+          <button onClick={replaceCurrent} disabled={currentMatch === -1} className="px-1.5 py-0.5 rounded text-[11px] text-zinc-400 hover:text-zinc-200 hover:bg-zinc-800 disabled:opacity-30">
+            Replace
+          </button>
+          <button onClick={replaceAll} disabled={matches.length === 0} className="px-1.5 py-0.5 rounded text-[11px] text-zinc-400 hover:text-zinc-200 hover:bg-zinc-800 disabled:opacity-30">
+            All
+          </button>
+          <button onClick={closeFind} className="ml-auto p-0.5 text-zinc-500 hover:text-zinc-300" title="Close (Esc)">
+            <XMarkIcon className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      )}
+
+      <div className="relative flex-1 min-h-0 flex overflow-hidden">
+        <div className="shrink-0 overflow-hidden border-r border-zinc-800/60 bg-zinc-950/60 select-none" aria-hidden="true">
+          <div ref={gutterRef} className={`${TEXT_STYLE} text-right text-zinc-600`}>
+            {Array.from({ length: lineCount }, (_, i) => i + 1).join('\n')}
+          </div>
+        </div>
+        <div className="relative flex-1 min-w-0 overflow-hidden">
+          <div ref={layersRef} className="absolute top-0 left-0 pointer-events-none" aria-hidden="true">
+            {matches.length > 0 && (
+              <pre className={`${TEXT_STYLE} absolute top-0 left-0 m-0 text-transparent`} dangerouslySetInnerHTML={{ __html: highlightMatches(value, matches, query.length, currentMatch) + '\n' }} />
+            )}
+            <pre className={`${TEXT_STYLE} relative m-0 text-zinc-300`} dangerouslySetInnerHTML={{ __html: highlighted + '\n' }} />
+            <span ref={charRef} className="absolute invisible font-mono text-[13px]">0</span>
+          </div>
+          <textarea
+            ref={textareaRef}
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            onKeyDown={handleKeyDown}
+            onScroll={syncScroll}
+            spellCheck={false}
+            autoCapitalize="off"
+            autoComplete="off"
+            autoCorrect="off"
+            wrap="off"
+            aria-label="HTML source"
+            className={`${TEXT_STYLE} absolute inset-0 w-full h-full resize-none overflow-auto bg-transparent text-transparent caret-zinc-100 selection:bg-blue-500/40 focus:outline-none`}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
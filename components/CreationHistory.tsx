@@ -2,23 +2,380 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React from 'react';
-import { ClockIcon, ArrowRightIcon, DocumentIcon, PhotoIcon } from '@heroicons/react/24/outline';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ClockIcon, ArrowRightIcon, DocumentIcon, PhotoIcon, CircleStackIcon, MagnifyingGlassIcon, BookmarkIcon, PencilSquareIcon, TagIcon, TrashIcon, XMarkIcon, InformationCircleIcon } from '@heroicons/react/24/outline';
+import { BookmarkIcon as BookmarkSolidIcon } from '@heroicons/react/24/solid';
+import { CreationDetails, StorageUsage } from '../services/storage';
+import { ValidationReport } from '../services/validator';
+import { SandboxPermissions } from '../services/sandbox';
+import { MathGameSpec } from '../services/mathGame';
+import { AppPlan } from '../services/plan';
+
+export interface Revision {
+  id: string;
+  html: string;
+  instruction?: string; // Refinement prompt that produced this version; absent for the initial generation
+  validation?: ValidationReport; // What the validator repaired or flagged in this version
+  timestamp: Date;
+}
+
+// An uploaded image or PDF the creation was generated from
+export interface CreationInput {
+  name: string; // Original file name
+  mimeType: string;
+  dataUrl: string; // Base64 data URL
+  caption?: string; // Optional note sent to the model alongside the file
+}
 
 export interface Creation {
   id: string;
   name: string;
-  html: string;
-  originalImage?: string; // Base64 data URL
+  description?: string; // One line from the model saying what the app does
+  notes?: string[]; // Assumptions the model made about ambiguous input
+  prompt?: string; // Text the user typed when generating, if any
+  pinned?: boolean; // Kept at the front of the archive
+  tags?: string[]; // User labels, in the order they were added; seeded with the model's tags
+  html: string; // Current version (always the html of the latest revision)
+  inputs?: CreationInput[]; // In the order they were sent to the model
+  validation?: ValidationReport; // Report for the current version; absent on creations made before validation
+  permissions?: SandboxPermissions; // Extra access granted to this app's preview; defaults apply when absent
+  thumbnail?: string; // JPEG data URL of the current version; absent until captured
+  mathGame?: MathGameSpec; // Spec a math game was built from, for regenerating or re-leveling it
+  plan?: AppPlan; // Plan the user approved before the app was built, for rebuilding it
   timestamp: Date;
+  revisions?: Revision[]; // Ordered oldest to newest
+}
+
+// Lightweight record listed in the archive; the full Creation is loaded on selection
+export interface CreationSummary {
+  id: string;
+  name: string;
+  description?: string;
+  notes?: string[];
+  prompt?: string;
+  pinned?: boolean;
+  tags?: string[];
+  timestamp: Date;
+  inputMimeType?: string; // Type of the first uploaded input, if any
+  inputCount?: number; // Absent on summaries saved before multi-file input
+  revisionCount: number;
+  sizeBytes: number; // Approximate stored size of html, revisions and inputs
+  thumbnail?: string; // Kept on the summary so cards show it without loading the creation
 }
 
 interface CreationHistoryProps {
-  history: Creation[];
-  onSelect: (creation: Creation) => void;
+  history: CreationSummary[];
+  storageUsage: StorageUsage | null;
+  onSelect: (summary: CreationSummary) => void;
+  onUpdate: (id: string, details: CreationDetails) => void;
+  onDelete: (summary: CreationSummary) => void;
+  onSearchContent: (query: string) => Promise<string[]>; // Ids whose html contains the query
+  onManageStorage: () => void;
+}
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+};
+
+const StorageMeter = ({ usage, onClick }: { usage: StorageUsage, onClick: () => void }) => {
+  const percent = usage.quota > 0 ? Math.min(100, (usage.usage / usage.quota) * 100) : 0;
+  return (
+    <button
+      onClick={onClick}
+      className="flex items-center space-x-2 text-zinc-500 hover:text-zinc-300 transition-colors"
+      title="Manage storage"
+    >
+      <CircleStackIcon className="w-3.5 h-3.5" />
+      <div className="w-16 h-1 bg-zinc-800 rounded-full overflow-hidden">
+        <div
+          className={`h-full ${percent > 90 ? 'bg-red-500' : percent > 70 ? 'bg-yellow-500' : 'bg-blue-500'}`}
+          style={{ width: `${Math.max(percent, 2)}%` }}
+        ></div>
+      </div>
+      <span className="text-[10px] font-mono">
+        {formatBytes(usage.usage)} / {formatBytes(usage.quota)}
+      </span>
+    </button>
+  );
+};
+
+type SortOrder = 'newest' | 'oldest' | 'name';
+
+const SORT_OPTIONS: { value: SortOrder, label: string }[] = [
+  { value: 'newest', label: 'Newest' },
+  { value: 'oldest', label: 'Oldest' },
+  { value: 'name', label: 'Name' },
+];
+
+// Pinned creations always come first, in the chosen order among themselves
+const compareSummaries = (sort: SortOrder) => (a: CreationSummary, b: CreationSummary) => {
+  if (!!a.pinned !== !!b.pinned) return a.pinned ? -1 : 1;
+  if (sort === 'name') return a.name.localeCompare(b.name, undefined, { sensitivity: 'base', numeric: true });
+  const diff = a.timestamp.getTime() - b.timestamp.getTime();
+  return sort === 'oldest' ? diff : -diff;
+};
+
+const matchesText = (item: CreationSummary, query: string) =>
+  [item.name, item.description ?? '', item.prompt ?? '', ...(item.tags ?? [])].some(text => text.toLowerCase().includes(query));
+
+// Searching html reads every stored document, so wait until typing pauses
+const CONTENT_SEARCH_DELAY_MS = 300;
+const MAX_TAG_LENGTH = 24;
+const MAX_TAGS = 8;
+
+// Cards have a fixed width, so only the ones in view (plus a few either side) are rendered
+const CARD_WIDTH = 176;
+const CARD_GAP = 16;
+const CARD_STRIDE = CARD_WIDTH + CARD_GAP;
+const OVERSCAN = 4;
+
+const useVisibleRange = (containerRef: React.RefObject<HTMLDivElement | null>, count: number) => {
+  const [range, setRange] = useState({ start: 0, end: 0 });
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const update = () => {
+      const start = Math.max(0, Math.floor(container.scrollLeft / CARD_STRIDE) - OVERSCAN);
+      const end = Math.min(count, Math.ceil((container.scrollLeft + container.clientWidth) / CARD_STRIDE) + OVERSCAN);
+      setRange(prev => (prev.start === start && prev.end === end ? prev : { start, end }));
+    };
+    update();
+    container.addEventListener('scroll', update, { passive: true });
+    const observer = new ResizeObserver(update);
+    observer.observe(container);
+    return () => {
+      container.removeEventListener('scroll', update);
+      observer.disconnect();
+    };
+  }, [containerRef, count]);
+
+  return range;
+};
+
+// Commits on Enter or blur, cancels on Escape; whichever comes first wins
+const InlineInput = ({ initialValue, placeholder, onCommit, onCancel }: { initialValue: string, placeholder: string, onCommit: (value: string) => void, onCancel: () => void }) => {
+  const [value, setValue] = useState(initialValue);
+  const isDoneRef = useRef(false);
+  const finish = (handler: () => void) => {
+    if (isDoneRef.current) return;
+    isDoneRef.current = true;
+    handler();
+  };
+
+  return (
+    <input
+      autoFocus
+      value={value}
+      placeholder={placeholder}
+      maxLength={120}
+      onChange={(e) => setValue(e.target.value)}
+      onClick={(e) => e.stopPropagation()}
+      onFocus={(e) => e.target.select()}
+      onKeyDown={(e) => {
+        e.stopPropagation();
+        if (e.key === 'Enter') finish(() => onCommit(value));
+        if (e.key === 'Escape') finish(onCancel);
+      }}
+      onBlur={() => finish(() => onCommit(value))}
+      className="w-full bg-zinc-950 border border-zinc-600 rounded px-1.5 py-0.5 text-xs text-zinc-100 placeholder-zinc-600 focus:outline-none focus:border-blue-500"
+    />
+  );
+};
+
+interface HistoryCardProps {
+  item: CreationSummary;
+  onSelect: (summary: CreationSummary) => void;
+  onUpdate: (id: string, details: CreationDetails) => void;
+  onDelete: (summary: CreationSummary) => void;
+  isShowingDetails: boolean;
+  onToggleDetails: (id: string) => void;
 }
 
-export const CreationHistory: React.FC<CreationHistoryProps> = ({ history, onSelect }) => {
+const hasDetails = (item: CreationSummary) => !!item.description || !!item.notes?.length;
+
+const HistoryCard = ({ item, onSelect, onUpdate, onDelete, isShowingDetails, onToggleDetails }: HistoryCardProps) => {
+  const [editing, setEditing] = useState<'name' | 'tags' | null>(null);
+  const isPdf = item.inputMimeType === 'application/pdf';
+  const tags = item.tags ?? [];
+
+  const commitName = (value: string) => {
+    setEditing(null);
+    const name = value.trim();
+    if (name && name !== item.name) onUpdate(item.id, { name });
+  };
+
+  const addTag = (value: string) => {
+    setEditing(null);
+    const tag = value.trim().slice(0, MAX_TAG_LENGTH);
+    if (!tag || tags.length >= MAX_TAGS || tags.some(t => t.toLowerCase() === tag.toLowerCase())) return;
+    onUpdate(item.id, { tags: [...tags, tag] });
+  };
+
+  // Buttons inside the card must not also open it
+  const action = (handler: () => void) => (e: React.MouseEvent) => {
+    e.stopPropagation();
+    handler();
+  };
+
+  return (
+    <div
+      role="button"
+      tabIndex={0}
+      onClick={() => !editing && onSelect(item)}
+      onKeyDown={(e) => e.key === 'Enter' && e.target === e.currentTarget && onSelect(item)}
+      className="group relative flex flex-col text-left w-full h-full bg-zinc-900/50 hover:bg-zinc-800 border border-zinc-800 hover:border-zinc-600 rounded-lg transition-all duration-200 overflow-hidden cursor-pointer focus:outline-none focus-visible:border-blue-500"
+    >
+      {item.thumbnail && (
+        <>
+          <img src={item.thumbnail} alt="" className="absolute inset-0 w-full h-full object-cover object-top opacity-50 group-hover:opacity-70 transition-opacity" />
+          <div className="absolute inset-0 bg-gradient-to-t from-zinc-950 via-zinc-950/60 to-transparent" />
+        </>
+      )}
+      <div className="relative p-4 flex flex-col h-full">
+        <div className="flex items-start justify-between mb-2">
+          <div className="relative p-1.5 bg-zinc-800 rounded group-hover:bg-zinc-700 transition-colors border border-zinc-700/50">
+              {(item.inputCount ?? 0) > 1 && (
+                  <span className="absolute -top-1.5 -right-1.5 min-w-[14px] h-3.5 px-0.5 rounded-full bg-blue-600 text-[9px] font-mono text-white flex items-center justify-center">
+                      {item.inputCount}
+                  </span>
+              )}
+              {isPdf ? (
+                  <DocumentIcon className="w-4 h-4 text-zinc-400" />
+              ) : item.inputMimeType ? (
+                  <PhotoIcon className="w-4 h-4 text-zinc-400" />
+              ) : (
+                  <DocumentIcon className="w-4 h-4 text-zinc-400" />
+              )}
+          </div>
+          <div className="flex items-center">
+            {hasDetails(item) && (
+              <button
+                onClick={action(() => onToggleDetails(item.id))}
+                aria-expanded={isShowingDetails}
+                className={`p-1 mr-0.5 -mt-1 transition-colors ${isShowingDetails ? 'text-blue-400' : 'text-zinc-500 hover:text-zinc-200'}`}
+                title="Details"
+              >
+                <InformationCircleIcon className="w-3.5 h-3.5" />
+              </button>
+            )}
+            {item.pinned && <BookmarkSolidIcon className="w-3.5 h-3.5 mr-1 text-blue-400 group-hover:hidden" />}
+            <span className="text-[10px] font-mono text-zinc-600 group-hover:hidden">
+              {item.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+            </span>
+            <div className="hidden group-hover:flex items-center -mr-1.5 -mt-1">
+              <button onClick={action(() => onUpdate(item.id, { pinned: !item.pinned }))} className="p-1 text-zinc-400 hover:text-zinc-100" title={item.pinned ? 'Unpin' : 'Pin'}>
+                {item.pinned ? <BookmarkSolidIcon className="w-3.5 h-3.5 text-blue-400" /> : <BookmarkIcon className="w-3.5 h-3.5" />}
+              </button>
+              <button onClick={action(() => setEditing('name'))} className="p-1 text-zinc-400 hover:text-zinc-100" title="Rename">
+                <PencilSquareIcon className="w-3.5 h-3.5" />
+              </button>
+              <button onClick={action(() => setEditing('tags'))} className="p-1 text-zinc-400 hover:text-zinc-100 disabled:opacity-30" title="Add tag" disabled={tags.length >= MAX_TAGS}>
+                <TagIcon className="w-3.5 h-3.5" />
+              </button>
+              <button onClick={action(() => onDelete(item))} className="p-1 text-zinc-400 hover:text-red-400" title="Delete">
+                <TrashIcon className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          </div>
+        </div>
+
+        <div className="mt-auto min-w-0">
+          {tags.length > 0 && (
+            <div className="flex items-center gap-1 mb-1 overflow-hidden">
+              {tags.map(tag => (
+                <span key={tag} className="group/tag flex items-center shrink-0 max-w-[6rem] px-1.5 rounded bg-zinc-800/90 text-[9px] text-zinc-400">
+                  <span className="truncate">{tag}</span>
+                  <button
+                    onClick={action(() => onUpdate(item.id, { tags: tags.filter(t => t !== tag) }))}
+                    className="hidden group-hover/tag:block ml-0.5 text-zinc-500 hover:text-zinc-200"
+                    title={`Remove tag "${tag}"`}
+                  >
+                    <XMarkIcon className="w-2.5 h-2.5" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+          {editing === 'name' ? (
+            <InlineInput initialValue={item.name} placeholder="Name" onCommit={commitName} onCancel={() => setEditing(null)} />
+          ) : editing === 'tags' ? (
+            <InlineInput initialValue="" placeholder="New tag" onCommit={addTag} onCancel={() => setEditing(null)} />
+          ) : (
+            <>
+              <h3 className="text-sm font-medium text-zinc-300 group-hover:text-white truncate" title={item.prompt ? `${item.name}\n\n${item.prompt}` : item.name}>
+                {item.name}
+              </h3>
+              {item.description && (
+                <p className="mt-1 text-[10px] text-zinc-500 truncate group-hover:hidden">{item.description}</p>
+              )}
+              <div className={`items-center space-x-1 mt-1 transition-opacity ${item.description ? 'hidden group-hover:flex' : 'flex opacity-0 group-hover:opacity-100'}`}>
+                <span className="text-[10px] text-blue-400">Restore</span>
+                <ArrowRightIcon className="w-3 h-3 text-blue-400" />
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export const CreationHistory: React.FC<CreationHistoryProps> = ({ history, storageUsage, onSelect, onUpdate, onDelete, onSearchContent, onManageStorage }) => {
+  const [query, setQuery] = useState('');
+  const [sort, setSort] = useState<SortOrder>('newest');
+  const [activeTag, setActiveTag] = useState<string | null>(null);
+  // Card whose description and assumption notes are shown below the strip
+  const [detailsId, setDetailsId] = useState<string | null>(null);
+  // Creations whose html matched the current query; searched separately since html isn't in the summaries
+  const [contentMatches, setContentMatches] = useState<Set<string>>(new Set());
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  const normalizedQuery = query.trim().toLowerCase();
+
+  useEffect(() => {
+    setContentMatches(new Set());
+    if (!normalizedQuery) return;
+    let isCancelled = false;
+    const timeout = setTimeout(() => {
+      onSearchContent(normalizedQuery)
+        .then(ids => !isCancelled && setContentMatches(new Set(ids)))
+        .catch(e => console.warn("Couldn't search creation contents", e));
+    }, CONTENT_SEARCH_DELAY_MS);
+    return () => {
+      isCancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [normalizedQuery, onSearchContent]);
+
+  const allTags = useMemo(
+    () => [...new Set(history.flatMap(item => item.tags ?? []))].sort((a, b) => a.localeCompare(b)),
+    [history]
+  );
+
+  const visibleItems = useMemo(() => history
+    .filter(item => !activeTag || item.tags?.includes(activeTag))
+    .filter(item => !normalizedQuery || matchesText(item, normalizedQuery) || contentMatches.has(item.id))
+    .sort(compareSummaries(sort)),
+    [history, activeTag, normalizedQuery, contentMatches, sort]
+  );
+
+  // A new filter starts back at the first card
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ left: 0 });
+  }, [normalizedQuery, activeTag, sort]);
+
+  // The tag filter goes away with the last creation carrying it
+  useEffect(() => {
+    if (activeTag && !allTags.includes(activeTag)) setActiveTag(null);
+  }, [activeTag, allTags]);
+
+  const { start, end } = useVisibleRange(scrollRef, visibleItems.length);
+  const detailsItem = visibleItems.find(item => item.id === detailsId && hasDetails(item));
+
   if (history.length === 0) return null;
 
   return (
@@ -26,49 +383,92 @@ export const CreationHistory: React.FC<CreationHistoryProps> = ({ history, onSel
       <div className="flex items-center space-x-3 mb-3 px-2">
         <ClockIcon className="w-4 h-4 text-zinc-500" />
         <h2 className="text-xs font-bold uppercase tracking-wider text-zinc-500">Archive</h2>
+        <span className="text-[10px] font-mono text-zinc-600">
+          {visibleItems.length === history.length ? history.length : `${visibleItems.length} / ${history.length}`}
+        </span>
         <div className="h-px flex-1 bg-zinc-800"></div>
+        {storageUsage && <StorageMeter usage={storageUsage} onClick={onManageStorage} />}
       </div>
-      
-      {/* Horizontal Scroll Container for Compact Layout */}
-      <div className="flex overflow-x-auto space-x-4 pb-2 px-2 scrollbar-hide">
-        {history.map((item) => {
-          const isPdf = item.originalImage?.startsWith('data:application/pdf');
-          return (
+
+      <div className="flex items-center gap-2 mb-3 px-2">
+        <div className="relative w-56 shrink-0">
+          <MagnifyingGlassIcon className="absolute left-2 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-zinc-500" />
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search names, prompts, code"
+            className="w-full bg-zinc-900/60 border border-zinc-800 rounded-md pl-7 pr-2 py-1 text-xs text-zinc-200 placeholder-zinc-600 focus:outline-none focus:border-zinc-600"
+          />
+        </div>
+        <div className="flex-1 flex items-center gap-1 overflow-x-auto scrollbar-hide">
+          {allTags.map(tag => (
             <button
-              key={item.id}
-              onClick={() => onSelect(item)}
-              className="group flex-shrink-0 relative flex flex-col text-left w-44 h-28 bg-zinc-900/50 hover:bg-zinc-800 border border-zinc-800 hover:border-zinc-600 rounded-lg transition-all duration-200 overflow-hidden"
+              key={tag}
+              onClick={() => setActiveTag(activeTag === tag ? null : tag)}
+              className={`shrink-0 flex items-center space-x-1 px-2 py-0.5 rounded-full border text-[10px] transition-colors ${activeTag === tag ? 'bg-blue-500/20 border-blue-500/40 text-blue-300' : 'border-zinc-800 text-zinc-500 hover:text-zinc-300 hover:border-zinc-600'}`}
             >
-              <div className="p-4 flex flex-col h-full">
-                <div className="flex items-start justify-between mb-2">
-                  <div className="p-1.5 bg-zinc-800 rounded group-hover:bg-zinc-700 transition-colors border border-zinc-700/50">
-                      {isPdf ? (
-                          <DocumentIcon className="w-4 h-4 text-zinc-400" />
-                      ) : item.originalImage ? (
-                          <PhotoIcon className="w-4 h-4 text-zinc-400" />
-                      ) : (
-                          <DocumentIcon className="w-4 h-4 text-zinc-400" />
-                      )}
-                  </div>
-                  <span className="text-[10px] font-mono text-zinc-600 group-hover:text-zinc-400">
-                    {item.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-                  </span>
-                </div>
-                
-                <div className="mt-auto">
-                  <h3 className="text-sm font-medium text-zinc-300 group-hover:text-white truncate">
-                    {item.name}
-                  </h3>
-                  <div className="flex items-center space-x-1 mt-1 opacity-0 group-hover:opacity-100 transition-opacity">
-                    <span className="text-[10px] text-blue-400">Restore</span>
-                    <ArrowRightIcon className="w-3 h-3 text-blue-400" />
-                  </div>
-                </div>
-              </div>
+              <TagIcon className="w-3 h-3" />
+              <span>{tag}</span>
             </button>
-          );
-        })}
+          ))}
+        </div>
+        <select
+          value={sort}
+          onChange={(e) => setSort(e.target.value as SortOrder)}
+          className="shrink-0 bg-zinc-900/60 border border-zinc-800 rounded-md px-2 py-1 text-xs text-zinc-400 focus:outline-none focus:border-zinc-600"
+          aria-label="Sort archive"
+        >
+          {SORT_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+        </select>
+      </div>
+
+      {/* Horizontal Scroll Container for Compact Layout */}
+      <div ref={scrollRef} className="overflow-x-auto pb-2 px-2 scrollbar-hide">
+        {visibleItems.length === 0 ? (
+          <p className="h-28 flex items-center justify-center text-xs text-zinc-600">No creations match.</p>
+        ) : (
+          <div className="relative h-28" style={{ width: visibleItems.length * CARD_STRIDE - CARD_GAP }}>
+            {visibleItems.slice(start, end).map((item, i) => (
+              <div key={item.id} className="absolute top-0 h-full" style={{ left: (start + i) * CARD_STRIDE, width: CARD_WIDTH }}>
+                <HistoryCard
+                  item={item}
+                  onSelect={onSelect}
+                  onUpdate={onUpdate}
+                  onDelete={onDelete}
+                  isShowingDetails={detailsItem?.id === item.id}
+                  onToggleDetails={id => setDetailsId(detailsId === id ? null : id)}
+                />
+              </div>
+            ))}
+          </div>
+        )}
       </div>
+
+      {detailsItem && (
+        <div className="mx-2 mt-1 p-3 bg-zinc-900/60 border border-zinc-800 rounded-lg text-left animate-in fade-in duration-150">
+          <div className="flex items-start justify-between gap-3">
+            <div className="min-w-0">
+              <h3 className="text-sm font-medium text-zinc-200 truncate">{detailsItem.name}</h3>
+              {detailsItem.description && <p className="mt-0.5 text-xs text-zinc-400">{detailsItem.description}</p>}
+            </div>
+            <button onClick={() => setDetailsId(null)} className="p-1 text-zinc-500 hover:text-zinc-300 rounded transition-colors" title="Close details">
+              <XMarkIcon className="w-3.5 h-3.5" />
+            </button>
+          </div>
+          {detailsItem.prompt && (
+            <p className="mt-2 text-[11px] text-zinc-500"><span className="text-zinc-600">Prompt:</span> {detailsItem.prompt}</p>
+          )}
+          {detailsItem.notes && detailsItem.notes.length > 0 && (
+            <div className="mt-2">
+              <span className="block text-[10px] font-mono uppercase tracking-wider text-zinc-500">Assumptions the model made</span>
+              <ul className="mt-1 list-disc pl-4 space-y-0.5 text-[11px] text-zinc-400">
+                {detailsItem.notes.map((note, i) => <li key={i}>{note}</li>)}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
       <style>{`
         .scrollbar-hide::-webkit-scrollbar {
             display: none;
@@ -80,4 +480,4 @@ export const CreationHistory: React.FC<CreationHistoryProps> = ({ history, onSel
       `}</style>
     </div>
   );
-};
\ No newline at end of file
+};
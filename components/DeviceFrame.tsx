@@ -0,0 +1,191 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { DevicePhoneMobileIcon, DeviceTabletIcon, ComputerDesktopIcon, AdjustmentsHorizontalIcon, ArrowPathRoundedSquareIcon, ArrowsPointingInIcon, Square2StackIcon, XMarkIcon } from '@heroicons/react/24/outline';
+
+export type DevicePreset = 'phone' | 'tablet' | 'desktop' | 'custom';
+
+// Width and height in CSS pixels, as currently oriented
+export interface Viewport {
+  preset: DevicePreset;
+  width: number;
+  height: number;
+}
+
+export interface DeviceView {
+  primary: Viewport;
+  secondary: Viewport | null; // Same creation at a second breakpoint, side by side
+  fit: boolean; // Scale devices down to the available space instead of showing them at 100%
+}
+
+const PRESETS: { preset: Exclude<DevicePreset, 'custom'>, label: string, width: number, height: number, Icon: typeof DevicePhoneMobileIcon }[] = [
+  { preset: 'phone', label: 'Phone', width: 390, height: 844, Icon: DevicePhoneMobileIcon },
+  { preset: 'tablet', label: 'Tablet', width: 820, height: 1180, Icon: DeviceTabletIcon },
+  { preset: 'desktop', label: 'Desktop', width: 1440, height: 900, Icon: ComputerDesktopIcon },
+];
+
+const presetViewport = (preset: Exclude<DevicePreset, 'custom'>): Viewport => {
+  const { width, height } = PRESETS.find(p => p.preset === preset)!;
+  return { preset, width, height };
+};
+
+export const DEFAULT_DEVICE_VIEW: DeviceView = { primary: presetViewport('tablet'), secondary: null, fit: true };
+
+const MIN_SIZE = 240;
+const MAX_SIZE = 3840;
+// Room for the label above each device and the bezel around it
+const LABEL_SPACE = 24;
+const MIN_SCALE = 0.1;
+
+const presetLabel = (preset: DevicePreset) => PRESETS.find(p => p.preset === preset)?.label ?? 'Custom';
+const hasBezel = (preset: DevicePreset) => preset === 'phone' || preset === 'tablet';
+
+// Commits on blur or Enter so typing "1024" doesn't clamp at "1"
+const DimensionInput = ({ value, label, onChange }: { value: number, label: string, onChange: (value: number) => void }) => {
+  const [draft, setDraft] = useState(String(value));
+  useEffect(() => setDraft(String(value)), [value]);
+
+  const commit = () => {
+    const parsed = parseInt(draft, 10);
+    if (Number.isNaN(parsed)) return setDraft(String(value));
+    const clamped = Math.min(MAX_SIZE, Math.max(MIN_SIZE, parsed));
+    setDraft(String(clamped));
+    if (clamped !== value) onChange(clamped);
+  };
+
+  return (
+    <input
+      type="number"
+      value={draft}
+      min={MIN_SIZE}
+      max={MAX_SIZE}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => e.key === 'Enter' && commit()}
+      aria-label={label}
+      className="w-14 bg-zinc-900 border border-zinc-800 rounded px-1.5 py-0.5 text-[11px] font-mono text-zinc-300 text-center focus:outline-none focus:border-zinc-600 [appearance:textfield] [&::-webkit-inner-spin-button]:appearance-none"
+    />
+  );
+};
+
+const ViewportControls = ({ viewport, onChange }: { viewport: Viewport, onChange: (viewport: Viewport) => void }) => (
+  <div className="flex items-center space-x-1">
+    {PRESETS.map(({ preset, label, Icon }) => (
+      <button
+        key={preset}
+        onClick={() => onChange(presetViewport(preset))}
+        className={`p-1 rounded transition-colors ${viewport.preset === preset ? 'bg-zinc-700 text-zinc-100' : 'text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800'}`}
+        title={label}
+      >
+        <Icon className="w-3.5 h-3.5" />
+      </button>
+    ))}
+    <span className={`p-1 ${viewport.preset === 'custom' ? 'text-zinc-100' : 'text-zinc-600'}`} title="Custom size">
+      <AdjustmentsHorizontalIcon className="w-3.5 h-3.5" />
+    </span>
+    <DimensionInput value={viewport.width} label="Width" onChange={width => onChange({ ...viewport, preset: 'custom', width })} />
+    <span className="text-[10px] text-zinc-600">×</span>
+    <DimensionInput value={viewport.height} label="Height" onChange={height => onChange({ ...viewport, preset: 'custom', height })} />
+    <button
+      onClick={() => onChange({ ...viewport, width: viewport.height, height: viewport.width })}
+      className="p-1 rounded text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800 transition-colors"
+      title={viewport.width > viewport.height ? 'Rotate to portrait' : 'Rotate to landscape'}
+    >
+      <ArrowPathRoundedSquareIcon className="w-3.5 h-3.5" />
+    </button>
+  </div>
+);
+
+interface ViewportToolbarProps {
+  view: DeviceView;
+  onChange: (view: DeviceView) => void;
+  onClose: () => void;
+}
+
+export const ViewportToolbar: React.FC<ViewportToolbarProps> = ({ view, onChange, onClose }) => (
+  <div className="flex items-center justify-between gap-3 px-3 py-1.5 bg-zinc-950 border-b border-zinc-800 overflow-x-auto shrink-0">
+    <div className="flex items-center gap-3">
+      <ViewportControls viewport={view.primary} onChange={primary => onChange({ ...view, primary })} />
+      {view.secondary && (
+        <>
+          <div className="w-px h-4 bg-zinc-800" />
+          <ViewportControls viewport={view.secondary} onChange={secondary => onChange({ ...view, secondary })} />
+        </>
+      )}
+    </div>
+    <div className="flex items-center space-x-1">
+      <button
+        onClick={() => onChange({ ...view, fit: !view.fit })}
+        className={`p-1 rounded transition-colors ${view.fit ? 'bg-zinc-700 text-zinc-100' : 'text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800'}`}
+        title={view.fit ? 'Show at 100%' : 'Zoom to fit'}
+      >
+        <ArrowsPointingInIcon className="w-3.5 h-3.5" />
+      </button>
+      <button
+        onClick={() => onChange({ ...view, secondary: view.secondary ? null : presetViewport(view.primary.preset === 'phone' ? 'tablet' : 'phone') })}
+        className={`p-1 rounded transition-colors ${view.secondary ? 'bg-zinc-700 text-zinc-100' : 'text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800'}`}
+        title={view.secondary ? 'Single viewport' : 'Compare two breakpoints'}
+      >
+        <Square2StackIcon className="w-3.5 h-3.5" />
+      </button>
+      <button onClick={onClose} className="p-1 rounded text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800 transition-colors" title="Fill the panel">
+        <XMarkIcon className="w-3.5 h-3.5" />
+      </button>
+    </div>
+  </div>
+);
+
+interface DeviceFrameProps {
+  viewport: Viewport | null; // null fills the available space like a plain iframe
+  fit: boolean;
+  children: React.ReactNode;
+}
+
+// Renders its children at the viewport's exact size, scaled down to fit if asked. The element
+// tree is the same with or without a viewport so switching never reloads the app inside.
+export const DeviceFrame: React.FC<DeviceFrameProps> = ({ viewport, fit, children }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [available, setAvailable] = useState({ width: 0, height: 0 });
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setAvailable({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const bezel = viewport && hasBezel(viewport.preset) ? 10 : viewport ? 1 : 0;
+  const scale = !viewport || !fit || available.width === 0 ? 1 : Math.max(MIN_SCALE, Math.min(
+    1,
+    (available.width - bezel * 2) / viewport.width,
+    (available.height - LABEL_SPACE - bezel * 2) / viewport.height,
+  ));
+
+  return (
+    <div ref={containerRef} className={`relative w-full h-full min-w-0 ${viewport ? 'flex p-4 overflow-auto bg-[#0c0c0e]' : ''}`}>
+      <div className={viewport ? 'm-auto flex flex-col items-center' : 'w-full h-full'}>
+        {viewport && (
+          <span className="h-6 shrink-0 text-[10px] font-mono uppercase tracking-wider text-zinc-500">
+            {presetLabel(viewport.preset)} · {viewport.width}×{viewport.height} · {Math.round(scale * 100)}%
+          </span>
+        )}
+        <div
+          className={viewport ? `box-content shrink-0 overflow-hidden bg-white shadow-2xl ${hasBezel(viewport.preset) ? 'rounded-[1.75rem] border-[10px] border-zinc-800' : 'rounded-md border border-zinc-700'}` : 'w-full h-full'}
+          style={viewport ? { width: viewport.width * scale, height: viewport.height * scale } : undefined}
+        >
+          <div
+            className={viewport ? 'origin-top-left' : 'w-full h-full'}
+            style={viewport ? { width: viewport.width, height: viewport.height, transform: `scale(${scale})` } : undefined}
+          >
+            {children}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
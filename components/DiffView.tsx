@@ -0,0 +1,177 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useMemo, useState } from 'react';
+import { XMarkIcon, ArrowUturnLeftIcon } from '@heroicons/react/24/outline';
+import { DiffLine, DiffRow, diffLines, diffStats, toSideBySide } from '../services/diff';
+
+interface DiffViewProps {
+  before: string;
+  after: string;
+  beforeLabel: string; // e.g. "v2"
+  afterLabel: string;
+  instruction?: string; // What the later version was asked to change
+  restoreLabel?: string; // Shown on the restore button; omitted when restoring isn't possible
+  onRestore: () => void;
+  onClose: () => void;
+}
+
+type DiffMode = 'unified' | 'split';
+
+// Unchanged lines kept around each change; longer unchanged stretches fold away
+const CONTEXT_LINES = 3;
+
+type Block<T> = { kind: 'rows'; rows: T[] } | { kind: 'gap'; id: number; rows: T[] };
+
+// Splits rows into visible runs and foldable gaps of unchanged rows far from any change
+function foldUnchanged<T>(rows: T[], isChanged: (row: T) => boolean): Block<T>[] {
+  const keep = rows.map(isChanged);
+  rows.forEach((row, i) => {
+    if (!isChanged(row)) return;
+    for (let j = Math.max(0, i - CONTEXT_LINES); j <= Math.min(rows.length - 1, i + CONTEXT_LINES); j++) keep[j] = true;
+  });
+
+  const blocks: Block<T>[] = [];
+  let i = 0;
+  while (i < rows.length) {
+    const start = i;
+    const visible = keep[i];
+    while (i < rows.length && keep[i] === visible) i++;
+    blocks.push(visible ? { kind: 'rows', rows: rows.slice(start, i) } : { kind: 'gap', id: start, rows: rows.slice(start, i) });
+  }
+  return blocks;
+}
+
+const LINE_STYLES = {
+  same: { row: '', sign: ' ', text: 'text-zinc-400' },
+  added: { row: 'bg-green-500/10', sign: '+', text: 'text-green-200' },
+  removed: { row: 'bg-red-500/10', sign: '-', text: 'text-red-200' },
+};
+
+const NumberCell = ({ value }: { value?: number }) => (
+  <span className="w-12 shrink-0 pr-2 text-right text-zinc-600 select-none">{value ?? ''}</span>
+);
+
+const UnifiedLine = ({ line }: { line: DiffLine }) => {
+  const style = LINE_STYLES[line.type];
+  return (
+    <div className={`flex ${style.row}`}>
+      <NumberCell value={line.oldNumber} />
+      <NumberCell value={line.newNumber} />
+      <span className={`w-4 shrink-0 select-none ${style.text}`}>{style.sign}</span>
+      <span className={`whitespace-pre ${style.text}`}>{line.text}</span>
+    </div>
+  );
+};
+
+const SplitCell = ({ line, number }: { line?: DiffLine, number?: number }) => {
+  const style = line ? LINE_STYLES[line.type] : null;
+  return (
+    <div className={`flex flex-1 min-w-0 overflow-hidden ${style?.row ?? 'bg-zinc-900/40'}`}>
+      <NumberCell value={number} />
+      <span className={`whitespace-pre ${style?.text ?? ''}`}>{line?.text ?? ''}</span>
+    </div>
+  );
+};
+
+const SplitRow = ({ row }: { row: DiffRow }) => (
+  <div className="flex divide-x divide-zinc-800">
+    <SplitCell line={row.left} number={row.left?.oldNumber} />
+    <SplitCell line={row.right} number={row.right?.newNumber} />
+  </div>
+);
+
+export const DiffView: React.FC<DiffViewProps> = ({ before, after, beforeLabel, afterLabel, instruction, restoreLabel, onRestore, onClose }) => {
+  const [mode, setMode] = useState<DiffMode>('unified');
+  const [expandedGaps, setExpandedGaps] = useState<Set<number>>(new Set());
+
+  const lines = useMemo(() => diffLines(before, after), [before, after]);
+  const stats = useMemo(() => diffStats(lines), [lines]);
+  const unifiedBlocks = useMemo(() => foldUnchanged(lines, line => line.type !== 'same'), [lines]);
+  const splitBlocks = useMemo(() => foldUnchanged(toSideBySide(lines), row => row.left?.type !== 'same'), [lines]);
+
+  // Gap ids are row offsets, which differ between the modes, so expansions start over
+  const switchMode = (next: DiffMode) => {
+    setMode(next);
+    setExpandedGaps(new Set());
+  };
+
+  const renderBlocks = <T,>(blocks: Block<T>[], renderRow: (row: T, key: number) => React.ReactNode) => {
+    let offset = 0;
+    return blocks.map(block => {
+      const start = offset;
+      offset += block.rows.length;
+      if (block.kind === 'gap' && !expandedGaps.has(block.id)) {
+        return (
+          <button
+            key={`gap-${block.id}`}
+            onClick={() => setExpandedGaps(prev => new Set(prev).add(block.id))}
+            className="w-full py-1 text-left pl-[6.5rem] bg-blue-500/5 text-blue-400/80 hover:text-blue-300 hover:bg-blue-500/10 transition-colors"
+          >
+            ⋯ {block.rows.length} unchanged {block.rows.length === 1 ? 'line' : 'lines'}
+          </button>
+        );
+      }
+      return block.rows.map((row, i) => renderRow(row, start + i));
+    });
+  };
+
+  const hasChanges = stats.added > 0 || stats.removed > 0;
+
+  return (
+    <div className="w-full h-full flex flex-col bg-[#0c0c0e]">
+      <div className="flex items-center justify-between gap-4 px-4 py-2 border-b border-zinc-800 shrink-0">
+        <div className="min-w-0">
+          <div className="flex items-center space-x-3">
+            <span className="text-xs font-mono text-zinc-300">{beforeLabel} → {afterLabel}</span>
+            <span className="text-[11px] font-mono">
+              <span className="text-green-400">+{stats.added}</span>{' '}
+              <span className="text-red-400">−{stats.removed}</span>
+            </span>
+          </div>
+          {instruction && <p className="mt-0.5 text-[11px] text-zinc-500 truncate" title={instruction}>{instruction}</p>}
+        </div>
+        <div className="flex items-center space-x-2 shrink-0">
+          <div className="flex rounded-md border border-zinc-800 overflow-hidden text-[11px]">
+            {(['unified', 'split'] as DiffMode[]).map(option => (
+              <button
+                key={option}
+                onClick={() => switchMode(option)}
+                className={`px-2.5 py-1 capitalize transition-colors ${mode === option ? 'bg-zinc-800 text-zinc-100' : 'text-zinc-500 hover:text-zinc-300'}`}
+              >
+                {option === 'split' ? 'Side by side' : option}
+              </button>
+            ))}
+          </div>
+          {restoreLabel && hasChanges && (
+            <button
+              onClick={onRestore}
+              className="flex items-center space-x-1 px-2.5 py-1 rounded-md text-[11px] font-medium text-red-300 bg-red-500/10 hover:bg-red-500/20 transition-colors"
+            >
+              <ArrowUturnLeftIcon className="w-3.5 h-3.5" />
+              <span>{restoreLabel}</span>
+            </button>
+          )}
+          <button onClick={onClose} className="p-1 rounded text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800 transition-colors" title="Close">
+            <XMarkIcon className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {!hasChanges ? (
+        <p className="flex-1 flex items-center justify-center text-sm text-zinc-500">The html of both versions is identical.</p>
+      ) : (
+        <div className="flex-1 overflow-auto font-mono text-[12px] leading-5 pb-24">
+          {mode === 'unified' ? (
+            <div className="min-w-max">
+              {renderBlocks(unifiedBlocks, (line, key) => <UnifiedLine key={key} line={line} />)}
+            </div>
+          ) : (
+            renderBlocks(splitBlocks, (row, key) => <SplitRow key={key} row={row} />)
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
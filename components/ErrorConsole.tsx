@@ -0,0 +1,112 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useState } from 'react';
+import { XMarkIcon, TrashIcon, WrenchScrewdriverIcon } from '@heroicons/react/24/outline';
+import { PreviewError, PreviewErrorKind, addPreviewError, isPreviewErrorMessage } from '../services/previewBridge';
+
+// Collects errors reported by the bridge inside the given iframe. Messages from other
+// frames (compare views, the streaming preview) are ignored. The list starts over
+// whenever the iframe is loaded with a new document.
+export function usePreviewErrors(frameRef: React.RefObject<HTMLIFrameElement | null>, srcDoc: string | undefined) {
+  const [errors, setErrors] = useState<PreviewError[]>([]);
+
+  useEffect(() => setErrors([]), [srcDoc]);
+
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      const frame = frameRef.current;
+      if (!frame || event.source !== frame.contentWindow || !isPreviewErrorMessage(event.data)) return;
+      const report = event.data;
+      setErrors(prev => addPreviewError(prev, report));
+    };
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, [frameRef]);
+
+  return { errors, clearErrors: () => setErrors([]) };
+}
+
+interface ErrorConsoleProps {
+  errors: PreviewError[];
+  canFix: boolean; // False while refining or when the errors come from an older version
+  onFix: () => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+const KIND_LABELS: Record<PreviewErrorKind, string> = {
+  error: 'Uncaught',
+  rejection: 'Promise',
+  console: 'console.error',
+  resource: 'Resource',
+};
+
+export const ErrorConsole: React.FC<ErrorConsoleProps> = ({ errors, canFix, onFix, onClear, onClose }) => {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  return (
+    <div className="absolute top-3 right-3 z-20 w-[28rem] max-w-[calc(100%-1.5rem)] max-h-[50%] flex flex-col bg-zinc-950/95 backdrop-blur-md border border-zinc-800 rounded-lg shadow-2xl animate-in fade-in slide-in-from-top-1 duration-150">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-zinc-800 shrink-0">
+        <div className="flex items-center space-x-2">
+          <span className="text-[11px] font-mono uppercase tracking-wider text-zinc-400">Console</span>
+          <span className="text-[10px] font-mono text-zinc-600">
+            {errors.length} {errors.length === 1 ? 'error' : 'errors'}
+          </span>
+        </div>
+        <div className="flex items-center space-x-1">
+          {errors.length > 0 && (
+            <>
+              <button
+                onClick={onFix}
+                disabled={!canFix}
+                className="flex items-center space-x-1 px-2 py-1 text-[11px] font-medium text-blue-400 hover:text-blue-300 hover:bg-zinc-800 rounded transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+                title="Refine the app to fix these errors"
+              >
+                <WrenchScrewdriverIcon className="w-3.5 h-3.5" />
+                <span>Fix these errors</span>
+              </button>
+              <button onClick={onClear} className="p-1 text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800 rounded transition-colors" title="Clear">
+                <TrashIcon className="w-3.5 h-3.5" />
+              </button>
+            </>
+          )}
+          <button onClick={onClose} className="p-1 text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800 rounded transition-colors" title="Close">
+            <XMarkIcon className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      </div>
+
+      {errors.length === 0 ? (
+        <p className="px-3 py-6 text-center text-xs text-zinc-600">No errors reported by the running app.</p>
+      ) : (
+        <ul className="overflow-y-auto divide-y divide-zinc-900 font-mono text-[11px]">
+          {errors.map(error => (
+            <li key={error.id} className="px-3 py-2">
+              <button
+                onClick={() => setExpandedId(expandedId === error.id ? null : error.id)}
+                disabled={!error.stack}
+                className="w-full text-left flex items-start space-x-2 disabled:cursor-default"
+              >
+                <span className="shrink-0 text-[10px] uppercase text-red-400/80 mt-px">{KIND_LABELS[error.kind]}</span>
+                <span className="flex-1 min-w-0 text-red-300 break-words">{error.message}</span>
+                {error.count > 1 && (
+                  <span className="shrink-0 px-1.5 rounded-full bg-red-500/20 text-red-300 text-[10px]">{error.count}</span>
+                )}
+              </button>
+              {error.line && (
+                <p className="mt-0.5 text-[10px] text-zinc-600">
+                  line {error.line}{error.column ? `:${error.column}` : ''}
+                </p>
+              )}
+              {expandedId === error.id && error.stack && (
+                <pre className="mt-1.5 p-2 bg-black/40 rounded text-[10px] text-zinc-500 whitespace-pre-wrap break-words">{error.stack}</pre>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -2,11 +2,26 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, { useCallback, useState, useEffect } from 'react';
-import { ArrowUpTrayIcon, SparklesIcon, CpuChipIcon, PaperAirplaneIcon, DocumentTextIcon } from '@heroicons/react/24/outline';
+import React, { useCallback, useState, useEffect, useRef } from 'react';
+import { ArrowUpTrayIcon, SparklesIcon, CpuChipIcon, PaperAirplaneIcon, DocumentTextIcon, DocumentIcon, XMarkIcon, ChevronLeftIcon, ChevronRightIcon, CalculatorIcon, ClipboardDocumentListIcon } from '@heroicons/react/24/outline';
+import { getProviderId, setProviderId, listProviders, ProviderId } from '../services/provider';
+import { AppError, InvalidInputError } from '../services/errors';
+import { MathGameSpec, DEFAULT_MATH_GAME_SPEC, mathGameProblems } from '../services/mathGame';
+import { MathGameForm } from './MathGameForm';
+
+export interface SelectedFile {
+  file: File;
+  caption: string;
+}
+
+interface TrayItem extends SelectedFile {
+  id: string;
+  previewUrl?: string; // Object URL for image thumbnails
+}
 
 interface InputAreaProps {
-  onGenerate: (prompt: string, file?: File) => void;
+  onGenerate: (prompt: string, files: SelectedFile[], mathGame?: MathGameSpec, planFirst?: boolean) => void;
+  onError: (error: AppError) => void;
   isGenerating: boolean;
   disabled?: boolean;
 }
@@ -43,32 +58,193 @@ const CyclingText = () => {
     );
 };
 
-export const InputArea: React.FC<InputAreaProps> = ({ onGenerate, isGenerating, disabled = false }) => {
+// Keeps a single request well inside the model's inline data limits
+const MAX_FILES = 10;
+
+const isSupported = (file: File) => file.type.startsWith('image/') || file.type === 'application/pdf';
+
+type InputMode = 'artifact' | 'math';
+
+const MODES: { mode: InputMode, label: string }[] = [
+    { mode: 'artifact', label: 'Any Artifact' },
+    { mode: 'math', label: 'Math Game' },
+];
+
+interface TrayCardProps {
+    item: TrayItem;
+    index: number;
+    count: number;
+    disabled: boolean;
+    onMove: (from: number, to: number) => void;
+    onRemove: (id: string) => void;
+    onCaptionChange: (id: string, caption: string) => void;
+    onDragStart: (index: number) => void;
+    onDropOn: (index: number) => void;
+}
+
+const TrayCard = ({ item, index, count, disabled, onMove, onRemove, onCaptionChange, onDragStart, onDropOn }: TrayCardProps) => (
+    <div
+        draggable={!disabled}
+        onDragStart={(e) => {
+            e.dataTransfer.effectAllowed = 'move';
+            onDragStart(index);
+        }}
+        onDragOver={(e) => e.preventDefault()}
+        onDrop={(e) => {
+            e.preventDefault();
+            e.stopPropagation();
+            onDropOn(index);
+        }}
+        className="group/card flex-shrink-0 w-36 bg-zinc-900/80 border border-zinc-800 hover:border-zinc-600 rounded-lg overflow-hidden transition-colors cursor-grab active:cursor-grabbing"
+    >
+        <div className="relative h-24 bg-zinc-950 flex items-center justify-center">
+            {item.previewUrl ? (
+                <img src={item.previewUrl} alt={item.file.name} className="w-full h-full object-cover pointer-events-none" />
+            ) : (
+                <div className="flex flex-col items-center text-zinc-500">
+                    <DocumentIcon className="w-8 h-8" />
+                    <span className="text-[10px] font-mono uppercase mt-1">PDF</span>
+                </div>
+            )}
+            <span className="absolute top-1.5 left-1.5 bg-black/80 text-zinc-300 text-[10px] font-mono px-1.5 py-0.5 rounded">
+                {index + 1}
+            </span>
+            <button
+                onClick={() => onRemove(item.id)}
+                disabled={disabled}
+                className="absolute top-1.5 right-1.5 p-0.5 bg-black/80 text-zinc-400 hover:text-white rounded transition-colors disabled:opacity-50"
+                title="Remove"
+            >
+                <XMarkIcon className="w-3.5 h-3.5" />
+            </button>
+            <div className="absolute bottom-1.5 inset-x-1.5 flex justify-between opacity-0 group-hover/card:opacity-100 focus-within:opacity-100 transition-opacity">
+                <button
+                    onClick={() => onMove(index, index - 1)}
+                    disabled={disabled || index === 0}
+                    className="p-0.5 bg-black/80 text-zinc-300 hover:text-white rounded disabled:invisible"
+                    title="Move earlier"
+                >
+                    <ChevronLeftIcon className="w-3.5 h-3.5" />
+                </button>
+                <button
+                    onClick={() => onMove(index, index + 1)}
+                    disabled={disabled || index === count - 1}
+                    className="p-0.5 bg-black/80 text-zinc-300 hover:text-white rounded disabled:invisible"
+                    title="Move later"
+                >
+                    <ChevronRightIcon className="w-3.5 h-3.5" />
+                </button>
+            </div>
+        </div>
+        <div className="p-1.5 space-y-1">
+            <p className="text-[10px] text-zinc-500 truncate" title={item.file.name}>{item.file.name}</p>
+            <input
+                type="text"
+                value={item.caption}
+                onChange={(e) => onCaptionChange(item.id, e.target.value)}
+                placeholder="Caption (optional)"
+                disabled={disabled}
+                className="w-full bg-zinc-950 border border-zinc-800 focus:border-blue-500/50 rounded px-1.5 py-1 text-[11px] text-zinc-300 placeholder-zinc-600 focus:outline-none disabled:opacity-50"
+            />
+        </div>
+    </div>
+);
+
+export const InputArea: React.FC<InputAreaProps> = ({ onGenerate, onError, isGenerating, disabled = false }) => {
   const [isDragging, setIsDragging] = useState(false);
   const [prompt, setPrompt] = useState("");
+  const [providerId, setProviderIdState] = useState<ProviderId>(getProviderId);
+  // Math game mode swaps the drop zone for a structured form; files already added are still sent
+  const [mode, setMode] = useState<InputMode>('artifact');
+  const [mathGame, setMathGame] = useState<MathGameSpec>(DEFAULT_MATH_GAME_SPEC);
+  // Asks for an editable plan before building; the math game form already is one
+  const [planFirst, setPlanFirst] = useState(false);
+
+  const handleProviderChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const id = e.target.value as ProviderId;
+    setProviderId(id);
+    setProviderIdState(id);
+  };
+
+  const [files, setFiles] = useState<TrayItem[]>([]);
+  const dragIndexRef = useRef<number | null>(null);
+  const filesRef = useRef(files);
+  filesRef.current = files;
+
+  // Release thumbnail object URLs when the tray goes away
+  useEffect(() => () => {
+    filesRef.current.forEach(item => item.previewUrl && URL.revokeObjectURL(item.previewUrl));
+  }, []);
+
+  const addFiles = (list: FileList) => {
+    const incoming = Array.from(list);
+    const unsupported = incoming.filter(file => !isSupported(file));
+    if (unsupported.length > 0) {
+      const names = unsupported.map(file => `"${file.name}"`).join(', ');
+      onError(new InvalidInputError(`${names} ${unsupported.length > 1 ? "aren't" : "isn't"} supported. Please upload images or PDFs.`));
+    }
 
-  const handleFile = (file: File) => {
-    if (file.type.startsWith('image/') || file.type === 'application/pdf') {
-      onGenerate(prompt, file);
-    } else {
-      alert("Please upload an image or PDF.");
+    const room = MAX_FILES - filesRef.current.length;
+    const accepted = incoming.filter(isSupported);
+    if (accepted.length > room) {
+      onError(new InvalidInputError(`Up to ${MAX_FILES} files can be sent at once; ${accepted.length - Math.max(room, 0)} were left out.`));
     }
+
+    const items = accepted.slice(0, Math.max(room, 0)).map(file => ({
+      id: crypto.randomUUID(),
+      file,
+      caption: '',
+      previewUrl: file.type.startsWith('image/') ? URL.createObjectURL(file) : undefined,
+    }));
+    if (items.length > 0) setFiles(prev => [...prev, ...items]);
+  };
+
+  const moveFile = (from: number, to: number) => {
+    if (to < 0 || to >= files.length || from === to) return;
+    setFiles(prev => {
+      const next = [...prev];
+      const [item] = next.splice(from, 1);
+      next.splice(to, 0, item);
+      return next;
+    });
+  };
+
+  const removeFile = (id: string) => {
+    const item = files.find(f => f.id === id);
+    if (item?.previewUrl) URL.revokeObjectURL(item.previewUrl);
+    setFiles(prev => prev.filter(f => f.id !== id));
+  };
+
+  const clearFiles = () => {
+    files.forEach(item => item.previewUrl && URL.revokeObjectURL(item.previewUrl));
+    setFiles([]);
+  };
+
+  const setCaption = (id: string, caption: string) => {
+    setFiles(prev => prev.map(f => (f.id === id ? { ...f, caption } : f)));
+  };
+
+  const handleCardDrop = (index: number) => {
+    if (dragIndexRef.current !== null) moveFile(dragIndexRef.current, index);
+    dragIndexRef.current = null;
   };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-        handleFile(e.target.files[0]);
+    if (e.target.files && e.target.files.length > 0) {
+        addFiles(e.target.files);
     }
+    // Allow picking the same file again after removing it
+    e.target.value = '';
   };
 
   const handleDrop = useCallback((e: React.DragEvent<HTMLLabelElement>) => {
     e.preventDefault();
     setIsDragging(false);
     if (disabled || isGenerating) return;
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      handleFile(e.dataTransfer.files[0]);
+    if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
+      addFiles(e.dataTransfer.files);
     }
-  }, [disabled, isGenerating, prompt]);
+  }, [disabled, isGenerating, onError]);
 
   const handleDragOver = useCallback((e: React.DragEvent<HTMLLabelElement>) => {
     e.preventDefault();
@@ -82,108 +258,178 @@ export const InputArea: React.FC<InputAreaProps> = ({ onGenerate, isGenerating,
     setIsDragging(false);
   }, []);
 
-  const handleTextSubmit = () => {
-      if (prompt.trim() && !disabled && !isGenerating) {
-          onGenerate(prompt, undefined);
+  const canSubmit = mode === 'math'
+    ? mathGameProblems(mathGame).length === 0
+    : Boolean(prompt.trim() || files.length > 0);
+
+  const handleSubmit = () => {
+      if (canSubmit && !disabled && !isGenerating) {
+          const selected = files.map(({ file, caption }) => ({ file, caption: caption.trim() }));
+          if (mode === 'math') {
+              onGenerate(prompt, selected, mathGame);
+          } else {
+              onGenerate(prompt, selected, undefined, planFirst);
+          }
       }
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
       if (e.key === 'Enter' && e.metaKey) {
-          handleTextSubmit();
+          handleSubmit();
       }
   };
 
   return (
     <div className="w-full max-w-4xl mx-auto perspective-1000 flex flex-col gap-4">
-      <div 
-        className={`relative group transition-all duration-300 ${isDragging ? 'scale-[1.01]' : ''}`}
-      >
-        <label
-          className={`
-            relative flex flex-col items-center justify-center
-            h-56 sm:h-64 md:h-[22rem]
-            bg-zinc-900/30 
-            backdrop-blur-sm
-            rounded-xl border border-dashed
-            cursor-pointer overflow-hidden
-            transition-all duration-300
-            ${isDragging 
-              ? 'border-blue-500 bg-zinc-900/50 shadow-[inset_0_0_20px_rgba(59,130,246,0.1)]' 
-              : 'border-zinc-700 hover:border-zinc-500 hover:bg-zinc-900/40'
-            }
-            ${isGenerating ? 'pointer-events-none border-blue-500/30 bg-blue-500/5' : ''}
-          `}
-          onDrop={handleDrop}
-          onDragOver={handleDragOver}
-          onDragLeave={handleDragLeave}
+      <div className="flex justify-center">
+        <div className="inline-flex p-0.5 rounded-lg border border-zinc-800 bg-zinc-900/50">
+            {MODES.map(option => (
+                <button
+                    key={option.mode}
+                    onClick={() => setMode(option.mode)}
+                    disabled={isGenerating}
+                    className={`flex items-center space-x-1.5 px-3 py-1.5 rounded-md text-xs font-medium transition-colors ${mode === option.mode ? 'bg-zinc-800 text-zinc-100' : 'text-zinc-500 hover:text-zinc-300'}`}
+                >
+                    {option.mode === 'math' ? <CalculatorIcon className="w-3.5 h-3.5" /> : <ArrowUpTrayIcon className="w-3.5 h-3.5" />}
+                    <span>{option.label}</span>
+                </button>
+            ))}
+        </div>
+      </div>
+
+      {mode === 'math' ? (
+        <div className="bg-zinc-900/30 backdrop-blur-sm rounded-xl border border-zinc-800 p-4 sm:p-6">
+            <MathGameForm spec={mathGame} onChange={setMathGame} disabled={disabled || isGenerating} />
+        </div>
+      ) : (
+        <div 
+          className={`relative group transition-all duration-300 ${isDragging ? 'scale-[1.01]' : ''}`}
         >
-            {/* Technical Grid Background */}
-            <div className="absolute inset-0 opacity-[0.03] pointer-events-none" 
-                 style={{backgroundImage: 'linear-gradient(#ffffff 1px, transparent 1px), linear-gradient(90deg, #ffffff 1px, transparent 1px)', backgroundSize: '32px 32px'}}>
-            </div>
+          <label
+            className={`
+              relative flex flex-col items-center justify-center
+              h-56 sm:h-64 md:h-[22rem]
+              bg-zinc-900/30 
+              backdrop-blur-sm
+              rounded-xl border border-dashed
+              cursor-pointer overflow-hidden
+              transition-all duration-300
+              ${isDragging 
+                ? 'border-blue-500 bg-zinc-900/50 shadow-[inset_0_0_20px_rgba(59,130,246,0.1)]' 
+                : 'border-zinc-700 hover:border-zinc-500 hover:bg-zinc-900/40'
+              }
+              ${isGenerating ? 'pointer-events-none border-blue-500/30 bg-blue-500/5' : ''}
+            `}
+            onDrop={handleDrop}
+            onDragOver={handleDragOver}
+            onDragLeave={handleDragLeave}
+          >
+              {/* Technical Grid Background */}
+              <div className="absolute inset-0 opacity-[0.03] pointer-events-none" 
+                   style={{backgroundImage: 'linear-gradient(#ffffff 1px, transparent 1px), linear-gradient(90deg, #ffffff 1px, transparent 1px)', backgroundSize: '32px 32px'}}>
+              </div>
             
-            {/* Corner Brackets for technical feel */}
-            <div className={`absolute top-4 left-4 w-4 h-4 border-l-2 border-t-2 transition-colors duration-300 ${isDragging ? 'border-blue-500' : 'border-zinc-600'}`}></div>
-            <div className={`absolute top-4 right-4 w-4 h-4 border-r-2 border-t-2 transition-colors duration-300 ${isDragging ? 'border-blue-500' : 'border-zinc-600'}`}></div>
-            <div className={`absolute bottom-4 left-4 w-4 h-4 border-l-2 border-b-2 transition-colors duration-300 ${isDragging ? 'border-blue-500' : 'border-zinc-600'}`}></div>
-            <div className={`absolute bottom-4 right-4 w-4 h-4 border-r-2 border-b-2 transition-colors duration-300 ${isDragging ? 'border-blue-500' : 'border-zinc-600'}`}></div>
-
-            <div className="relative z-10 flex flex-col items-center text-center space-y-6 md:space-y-8 p-6 md:p-8 w-full">
-                <div className={`relative w-16 h-16 md:w-20 md:h-20 rounded-2xl flex items-center justify-center transition-transform duration-500 ${isDragging ? 'scale-110' : 'group-hover:-translate-y-1'}`}>
-                    <div className={`absolute inset-0 rounded-2xl bg-zinc-800 border border-zinc-700 shadow-xl flex items-center justify-center ${isGenerating ? 'ring-2 ring-blue-500/50 ring-offset-2 ring-offset-zinc-900' : ''}`}>
-                        {isGenerating ? (
-                            <div className="relative flex items-center justify-center">
-                                <CpuChipIcon className="w-8 h-8 md:w-10 md:h-10 text-blue-400 animate-spin" />
-                                <div className="absolute inset-0 bg-blue-500/20 blur-xl rounded-full animate-pulse"></div>
-                            </div>
-                        ) : (
-                            isDragging ? (
-                                <ArrowUpTrayIcon className="w-8 h-8 md:w-10 md:h-10 text-blue-400 transition-all duration-300 -translate-y-1" />
-                            ) : (
-                                <ArrowUpTrayIcon className="w-8 h-8 md:w-10 md:h-10 text-zinc-300" />
-                            )
-                        )}
-                    </div>
-                </div>
+              {/* Corner Brackets for technical feel */}
+              <div className={`absolute top-4 left-4 w-4 h-4 border-l-2 border-t-2 transition-colors duration-300 ${isDragging ? 'border-blue-500' : 'border-zinc-600'}`}></div>
+              <div className={`absolute top-4 right-4 w-4 h-4 border-r-2 border-t-2 transition-colors duration-300 ${isDragging ? 'border-blue-500' : 'border-zinc-600'}`}></div>
+              <div className={`absolute bottom-4 left-4 w-4 h-4 border-l-2 border-b-2 transition-colors duration-300 ${isDragging ? 'border-blue-500' : 'border-zinc-600'}`}></div>
+              <div className={`absolute bottom-4 right-4 w-4 h-4 border-r-2 border-b-2 transition-colors duration-300 ${isDragging ? 'border-blue-500' : 'border-zinc-600'}`}></div>
 
-                <div className="space-y-2 md:space-y-4 w-full max-w-3xl">
-                    {isGenerating ? (
-                         <h3 className="text-xl sm:text-2xl md:text-3xl text-blue-400 font-mono animate-pulse">
-                            Processing Artifact...
-                         </h3>
-                    ) : (
-                        <h3 className="flex flex-col items-center justify-center text-xl sm:text-2xl md:text-4xl text-zinc-100 leading-none font-bold tracking-tighter gap-3">
-                            <span>Bring</span>
-                            {/* Fixed height container to prevent layout shifts */}
-                            <div className="h-8 sm:h-10 md:h-14 flex items-center justify-center w-full">
-                            <CyclingText />
-                            </div>
-                            <span>to life</span>
-                        </h3>
-                    )}
+              <div className="relative z-10 flex flex-col items-center text-center space-y-6 md:space-y-8 p-6 md:p-8 w-full">
+                  <div className={`relative w-16 h-16 md:w-20 md:h-20 rounded-2xl flex items-center justify-center transition-transform duration-500 ${isDragging ? 'scale-110' : 'group-hover:-translate-y-1'}`}>
+                      <div className={`absolute inset-0 rounded-2xl bg-zinc-800 border border-zinc-700 shadow-xl flex items-center justify-center ${isGenerating ? 'ring-2 ring-blue-500/50 ring-offset-2 ring-offset-zinc-900' : ''}`}>
+                          {isGenerating ? (
+                              <div className="relative flex items-center justify-center">
+                                  <CpuChipIcon className="w-8 h-8 md:w-10 md:h-10 text-blue-400 animate-spin" />
+                                  <div className="absolute inset-0 bg-blue-500/20 blur-xl rounded-full animate-pulse"></div>
+                              </div>
+                          ) : (
+                              isDragging ? (
+                                  <ArrowUpTrayIcon className="w-8 h-8 md:w-10 md:h-10 text-blue-400 transition-all duration-300 -translate-y-1" />
+                              ) : (
+                                  <ArrowUpTrayIcon className="w-8 h-8 md:w-10 md:h-10 text-zinc-300" />
+                              )
+                          )}
+                      </div>
+                  </div>
+
+                  <div className="space-y-2 md:space-y-4 w-full max-w-3xl">
+                      {isGenerating ? (
+                           <h3 className="text-xl sm:text-2xl md:text-3xl text-blue-400 font-mono animate-pulse">
+                              Processing Artifact...
+                           </h3>
+                      ) : (
+                          <h3 className="flex flex-col items-center justify-center text-xl sm:text-2xl md:text-4xl text-zinc-100 leading-none font-bold tracking-tighter gap-3">
+                              <span>Bring</span>
+                              {/* Fixed height container to prevent layout shifts */}
+                              <div className="h-8 sm:h-10 md:h-14 flex items-center justify-center w-full">
+                              <CyclingText />
+                              </div>
+                              <span>to life</span>
+                          </h3>
+                      )}
                     
-                    {!isGenerating && (
-                        <p className="text-zinc-500 text-xs sm:text-base md:text-lg font-light tracking-wide flex items-center justify-center gap-2">
-                             <DocumentTextIcon className="w-4 h-4 sm:w-5 sm:h-5 text-zinc-600" />
-                            <span>
-                                <span className="hidden md:inline">Drag & Drop</span>
-                                <span className="md:hidden">Tap</span> to upload an image or PDF
-                            </span>
-                        </p>
-                    )}
-                </div>
-            </div>
+                      {!isGenerating && (
+                          <p className="text-zinc-500 text-xs sm:text-base md:text-lg font-light tracking-wide flex items-center justify-center gap-2">
+                               <DocumentTextIcon className="w-4 h-4 sm:w-5 sm:h-5 text-zinc-600" />
+                              {files.length > 0 ? (
+                                  <span>Add more pages, or press send to bring them to life</span>
+                              ) : (
+                                  <span>
+                                      <span className="hidden md:inline">Drag & Drop</span>
+                                      <span className="md:hidden">Tap</span> to add images or PDFs
+                                  </span>
+                              )}
+                          </p>
+                      )}
+                  </div>
+              </div>
 
-            <input
-                type="file"
-                accept="image/*,application/pdf"
-                className="hidden"
-                onChange={handleFileChange}
-                disabled={isGenerating || disabled}
-            />
-        </label>
-      </div>
+              <input
+                  type="file"
+                  accept="image/*,application/pdf"
+                  multiple
+                  className="hidden"
+                  onChange={handleFileChange}
+                  disabled={isGenerating || disabled}
+              />
+          </label>
+        </div>
+      )}
+
+      {/* Selected files, in the order they will be sent */}
+      {files.length > 0 && (
+        <div className="animate-in fade-in slide-in-from-bottom-2 duration-300">
+            <div className="flex items-center justify-between px-1 mb-2">
+                <span className="text-[10px] font-mono uppercase tracking-wider text-zinc-500">
+                    {files.length} {files.length === 1 ? 'file' : 'files'} · drag to reorder
+                </span>
+                <button
+                    onClick={clearFiles}
+                    disabled={disabled || isGenerating}
+                    className="text-[10px] text-zinc-500 hover:text-zinc-300 transition-colors disabled:opacity-50"
+                >
+                    Clear all
+                </button>
+            </div>
+            <div className="flex overflow-x-auto space-x-3 pb-1">
+                {files.map((item, index) => (
+                    <TrayCard
+                        key={item.id}
+                        item={item}
+                        index={index}
+                        count={files.length}
+                        disabled={disabled || isGenerating}
+                        onMove={moveFile}
+                        onRemove={removeFile}
+                        onCaptionChange={setCaption}
+                        onDragStart={(i) => { dragIndexRef.current = i; }}
+                        onDropOn={handleCardDrop}
+                    />
+                ))}
+            </div>
+        </div>
+      )}
 
       {/* Custom Prompt Input */}
       <div className={`relative group transition-opacity duration-300 ${isGenerating ? 'opacity-80' : 'opacity-100'}`}>
@@ -193,13 +439,15 @@ export const InputArea: React.FC<InputAreaProps> = ({ onGenerate, isGenerating,
                 value={prompt}
                 onChange={(e) => setPrompt(e.target.value)}
                 onKeyDown={handleKeyDown}
-                placeholder="Optional: Add specific instructions, details, or game rules (supports images & PDFs)..."
+                placeholder={mode === 'math'
+                    ? "Optional: A theme, characters, or extra rules for the game..."
+                    : "Optional: Add specific instructions, details, or game rules (supports images & PDFs)..."}
                 disabled={disabled || isGenerating}
                 className="w-full bg-transparent text-zinc-300 placeholder-zinc-600 px-4 py-3 focus:outline-none resize-none h-14 min-h-[3.5rem] focus:h-20 text-sm transition-all disabled:opacity-50"
              />
-             {(prompt.trim() || isGenerating) && (
+             {(canSubmit || isGenerating) && (
                  <button 
-                    onClick={handleTextSubmit}
+                    onClick={handleSubmit}
                     disabled={disabled || isGenerating}
                     className="absolute right-2 bottom-2 p-2 bg-blue-600 hover:bg-blue-500 text-white rounded-md transition-all shadow-lg disabled:opacity-80 disabled:cursor-not-allowed flex items-center justify-center min-w-[32px]"
                     title="Send"
@@ -215,9 +463,33 @@ export const InputArea: React.FC<InputAreaProps> = ({ onGenerate, isGenerating,
          <div className="flex justify-between px-1 mt-1.5">
             <div className="flex items-center space-x-1.5">
                 <SparklesIcon className="w-3 h-3 text-blue-400" />
-                <span className="text-[10px] text-blue-400/80 font-medium uppercase tracking-wider">Gemini 3 Thinking Mode Active</span>
+                <select
+                    value={providerId}
+                    onChange={handleProviderChange}
+                    disabled={disabled || isGenerating}
+                    className="bg-transparent text-[10px] text-blue-400/80 font-medium uppercase tracking-wider focus:outline-none cursor-pointer disabled:cursor-default"
+                    title="Model provider"
+                >
+                    {listProviders().map(provider => (
+                        <option key={provider.id} value={provider.id} className="bg-zinc-900 normal-case">
+                            {provider.label} Active
+                        </option>
+                    ))}
+                </select>
+                {mode === 'artifact' && (
+                    <button
+                        onClick={() => setPlanFirst(value => !value)}
+                        disabled={disabled || isGenerating}
+                        aria-pressed={planFirst}
+                        className={`flex items-center space-x-1 pl-2 text-[10px] font-medium uppercase tracking-wider transition-colors ${planFirst ? 'text-blue-400' : 'text-zinc-600 hover:text-zinc-400'}`}
+                        title="Review and edit what the model plans to build before it writes any code"
+                    >
+                        <ClipboardDocumentListIcon className="w-3 h-3" />
+                        <span>Plan first{planFirst ? ' · on' : ''}</span>
+                    </button>
+                )}
             </div>
-            {prompt.trim() && !isGenerating && (
+            {canSubmit && !isGenerating && (
                  <span className="text-[10px] text-zinc-600 hidden sm:inline-block">Press Cmd+Enter to send</span>
             )}
          </div>
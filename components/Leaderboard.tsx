@@ -0,0 +1,237 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { XMarkIcon, TrashIcon, TrophyIcon } from '@heroicons/react/24/outline';
+import { GameSession, applyGameEvent, bestSessions, isGameEventMessage } from '../services/gameEvents';
+import { loadGameSessions, saveGameSessions } from '../services/storage';
+
+// Score updates can arrive every frame, so saves are batched like app data writes
+const SAVE_DELAY_MS = 500;
+const PLAYER_STORAGE_KEY = 'game_player_name';
+const DEFAULT_PLAYER = 'Player';
+const TOP_SCORES = 10;
+const RESULT_VISIBLE_MS = 5000;
+
+const storedPlayer = () => localStorage.getItem(PLAYER_STORAGE_KEY) || DEFAULT_PLAYER;
+
+export interface GameResult {
+  session: GameSession;
+  isBest: boolean; // Highest score recorded for this creation so far
+}
+
+// Records plays of the creation's game from the events its preview posts. Only the frame
+// showing the current version records, matching which frame may save app data.
+export function useGameSessions(creationId: string | undefined, frameRef: React.RefObject<HTMLIFrameElement | null>, isRecording: boolean) {
+  const [sessions, setSessions] = useState<GameSession[]>([]);
+  const [player, setPlayerState] = useState(storedPlayer);
+  const [lastResult, setLastResult] = useState<GameResult | null>(null);
+  const sessionsRef = useRef<GameSession[]>([]);
+  const playerRef = useRef(player);
+  const pendingSaveRef = useRef<{ id: string; sessions: GameSession[]; timeout: ReturnType<typeof setTimeout> } | null>(null);
+
+  const flushSave = () => {
+    const pending = pendingSaveRef.current;
+    if (!pending) return;
+    clearTimeout(pending.timeout);
+    pendingSaveRef.current = null;
+    saveGameSessions(pending.id, pending.sessions).catch(e => console.error("Failed to save game sessions", e));
+  };
+
+  const replaceSessions = (next: GameSession[]) => {
+    sessionsRef.current = next;
+    setSessions(next);
+  };
+
+  useEffect(() => {
+    replaceSessions([]);
+    setLastResult(null);
+    if (!creationId) return;
+    let isCancelled = false;
+    loadGameSessions(creationId)
+      .catch(e => {
+        console.error("Failed to load game sessions", e);
+        return [];
+      })
+      .then(loaded => {
+        if (!isCancelled) replaceSessions(loaded);
+      });
+    return () => {
+      isCancelled = true;
+      flushSave();
+    };
+  }, [creationId]);
+
+  useEffect(() => {
+    if (!creationId || !isRecording) return;
+    const handleMessage = (event: MessageEvent) => {
+      const frame = frameRef.current;
+      if (!frame || event.source !== frame.contentWindow || !isGameEventMessage(event.data)) return;
+      const next = applyGameEvent(sessionsRef.current, event.data, playerRef.current);
+      replaceSessions(next);
+
+      if (event.data.event === 'game-over') {
+        const session = next[next.length - 1];
+        setLastResult({ session, isBest: session.score > 0 && bestSessions(next, 1)[0]?.id === session.id });
+      }
+
+      if (pendingSaveRef.current) clearTimeout(pendingSaveRef.current.timeout);
+      pendingSaveRef.current = { id: creationId, sessions: next, timeout: setTimeout(flushSave, SAVE_DELAY_MS) };
+    };
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, [creationId, frameRef, isRecording]);
+
+  return {
+    sessions,
+    player,
+    lastResult,
+    dismissResult: () => setLastResult(null),
+    // Applies to plays that start from now on
+    setPlayer: (name: string) => {
+      playerRef.current = name.trim() || DEFAULT_PLAYER;
+      setPlayerState(name);
+      localStorage.setItem(PLAYER_STORAGE_KEY, name.trim());
+    },
+    clear: () => {
+      if (!creationId) return;
+      if (pendingSaveRef.current) clearTimeout(pendingSaveRef.current.timeout);
+      pendingSaveRef.current = null;
+      replaceSessions([]);
+      setLastResult(null);
+      saveGameSessions(creationId, []).catch(e => console.error("Failed to clear game sessions", e));
+    },
+  };
+}
+
+const formatDuration = (session: GameSession) => {
+  if (!session.endedAt) return null;
+  const seconds = Math.round((session.endedAt.getTime() - session.startedAt.getTime()) / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+const formatWhen = (date: Date) =>
+  date.toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+interface LeaderboardPanelProps {
+  sessions: GameSession[];
+  player: string;
+  onPlayerChange: (name: string) => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+export const LeaderboardPanel: React.FC<LeaderboardPanelProps> = ({ sessions, player, onPlayerChange, onClear, onClose }) => {
+  const [tab, setTab] = useState<'best' | 'history'>('best');
+  const [confirmClear, setConfirmClear] = useState(false);
+  const best = bestSessions(sessions, TOP_SCORES);
+  const history = [...sessions].reverse();
+
+  return (
+    <div className="absolute top-3 right-3 z-20 w-[28rem] max-w-[calc(100%-1.5rem)] max-h-[60%] flex flex-col bg-zinc-950/95 backdrop-blur-md border border-zinc-800 rounded-lg shadow-2xl animate-in fade-in slide-in-from-top-1 duration-150">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-zinc-800 shrink-0">
+        <div className="flex items-center space-x-2">
+          <span className="text-[11px] font-mono uppercase tracking-wider text-zinc-400">Leaderboard</span>
+          <span className="text-[10px] font-mono text-zinc-600">
+            {sessions.length} {sessions.length === 1 ? 'play' : 'plays'}
+          </span>
+        </div>
+        <div className="flex items-center space-x-1">
+          {sessions.length > 0 && (
+            <button
+              onClick={() => {
+                if (!confirmClear) return setConfirmClear(true);
+                setConfirmClear(false);
+                onClear();
+              }}
+              onBlur={() => setConfirmClear(false)}
+              className={`flex items-center space-x-1 px-2 py-1 text-[11px] font-medium rounded transition-colors ${confirmClear ? 'bg-red-500/20 text-red-300' : 'text-zinc-400 hover:text-zinc-200 hover:bg-zinc-800'}`}
+              title="Delete every recorded play of this game"
+            >
+              <TrashIcon className="w-3.5 h-3.5" />
+              <span>{confirmClear ? 'Confirm clear' : 'Clear'}</span>
+            </button>
+          )}
+          <button onClick={onClose} className="p-1 text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800 rounded transition-colors" title="Close">
+            <XMarkIcon className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between px-3 py-2 border-b border-zinc-900 shrink-0">
+        <label className="flex items-center space-x-2 text-[11px] text-zinc-500">
+          <span>Playing as</span>
+          <input
+            type="text"
+            value={player}
+            onChange={(e) => onPlayerChange(e.target.value)}
+            placeholder={DEFAULT_PLAYER}
+            maxLength={24}
+            className="w-32 bg-zinc-900 border border-zinc-800 focus:border-blue-500/50 rounded px-1.5 py-0.5 text-[11px] text-zinc-200 focus:outline-none"
+          />
+        </label>
+        <div className="flex rounded-md border border-zinc-800 overflow-hidden text-[11px]">
+          {(['best', 'history'] as const).map(option => (
+            <button
+              key={option}
+              onClick={() => setTab(option)}
+              className={`px-2 py-0.5 transition-colors ${tab === option ? 'bg-zinc-800 text-zinc-100' : 'text-zinc-500 hover:text-zinc-300'}`}
+            >
+              {option === 'best' ? 'Best scores' : 'History'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {sessions.length === 0 ? (
+        <p className="px-3 py-6 text-center text-xs text-zinc-600">
+          No plays recorded yet. Games that report their score through the game event bridge show up here.
+        </p>
+      ) : (
+        <ol className="overflow-y-auto divide-y divide-zinc-900 font-mono text-[11px]">
+          {(tab === 'best' ? best : history).map((session, i) => (
+            <li key={session.id} className="flex items-center px-3 py-1.5 space-x-3">
+              {tab === 'best' && <span className={`w-5 text-right ${i === 0 ? 'text-amber-400' : 'text-zinc-600'}`}>{i + 1}</span>}
+              <span className="flex-1 min-w-0 truncate text-zinc-300" title={session.player}>{session.player}</span>
+              {session.level > 0 && <span className="text-zinc-500">L{session.level}</span>}
+              <span className="w-16 text-right text-zinc-100">{session.score.toLocaleString()}</span>
+              <span className="w-28 text-right text-zinc-600">
+                {tab === 'history' && !session.endedAt ? 'unfinished' : formatDuration(session) ?? formatWhen(session.startedAt)}
+              </span>
+              {tab === 'history' && <span className="w-24 text-right text-zinc-600">{formatWhen(session.startedAt)}</span>}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+interface GameResultToastProps {
+  result: GameResult;
+  onOpen: () => void;
+  onDismiss: () => void;
+}
+
+// Brief note over the preview when a play ends
+export const GameResultToast: React.FC<GameResultToastProps> = ({ result, onOpen, onDismiss }) => {
+  useEffect(() => {
+    const timeout = setTimeout(onDismiss, RESULT_VISIBLE_MS);
+    return () => clearTimeout(timeout);
+  }, [result]);
+
+  return (
+    <div className="absolute top-3 left-3 z-20 flex items-center space-x-2 bg-zinc-900/95 border border-zinc-700 rounded-lg pl-3 pr-1 py-1 shadow-xl animate-in fade-in slide-in-from-top-1 duration-150">
+      <TrophyIcon className={`w-4 h-4 ${result.isBest ? 'text-amber-400' : 'text-zinc-500'}`} />
+      <span className="text-xs text-zinc-300">
+        {result.session.player} scored <span className="font-mono text-zinc-100">{result.session.score.toLocaleString()}</span>
+        {result.isBest && <span className="ml-1.5 text-amber-400">New best!</span>}
+      </span>
+      <button onClick={onOpen} className="text-xs font-medium text-blue-400 hover:text-blue-300 px-1">Leaderboard</button>
+      <button onClick={onDismiss} className="p-0.5 rounded text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800" title="Dismiss">
+        <XMarkIcon className="w-3.5 h-3.5" />
+      </button>
+    </div>
+  );
+};
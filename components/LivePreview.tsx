@@ -2,24 +2,50 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, { useEffect, useState, useRef } from 'react';
-import { ArrowDownTrayIcon, PlusIcon, ViewColumnsIcon, DocumentIcon, CodeBracketIcon, XMarkIcon, ClipboardDocumentCheckIcon, SparklesIcon, PaperAirplaneIcon } from '@heroicons/react/24/outline';
+import React, { useEffect, useMemo, useState, useRef } from 'react';
+import { ArrowDownTrayIcon, PlusIcon, ViewColumnsIcon, CodeBracketIcon, XMarkIcon, ClipboardDocumentCheckIcon, SparklesIcon, PaperAirplaneIcon, ClockIcon, ChevronDownIcon, ChevronLeftIcon, ChevronRightIcon, LightBulbIcon, CommandLineIcon, CircleStackIcon, DeviceTabletIcon, CodeBracketSquareIcon, DocumentMagnifyingGlassIcon, CalculatorIcon, TrophyIcon, ClipboardDocumentListIcon } from '@heroicons/react/24/outline';
 import { Creation } from './CreationHistory';
-import { analyzeCode } from '../services/gemini';
+import { RevisionTimeline } from './RevisionTimeline';
+import { PdfViewer } from './PdfViewer';
+import { AnalysisFindings } from './AnalysisFindings';
+import { ErrorConsole, usePreviewErrors } from './ErrorConsole';
+import { ValidationStatus } from './ValidationStatus';
+import { SandboxSettings } from './SandboxSettings';
+import { AppDataPanel, useAppData } from './AppDataPanel';
+import { DeviceFrame, DeviceView, ViewportToolbar, DEFAULT_DEVICE_VIEW } from './DeviceFrame';
+import { CodeEditor } from './CodeEditor';
+import { MathGamePanel } from './MathGameForm';
+import { PlanPanel } from './PlanEditor';
+import { LeaderboardPanel, GameResultToast, useGameSessions } from './Leaderboard';
+import { WorksheetPreview } from './WorksheetPreview';
+import { DiffView } from './DiffView';
+import { analyzeCode, createWorksheet, findingInstruction, runtimeErrorsInstruction, partialHtml, AnalysisFinding, GenerationProgress, GenerationStage, GENERATION_STAGES } from '../services/gemini';
+import { getRevisions } from '../services/creations';
+import { getProvider } from '../services/provider';
+import { exportCreation, downloadWorksheet, ExportFormat } from '../services/export';
+import { injectBridge } from '../services/previewBridge';
+import { DEFAULT_PERMISSIONS, SandboxPermissions, injectCsp, sandboxAttribute } from '../services/sandbox';
+import { injectStorageShim } from '../services/appData';
+import { injectGameEvents } from '../services/gameEvents';
+import { diffLines, diffStats } from '../services/diff';
+import { MathGameSpec } from '../services/mathGame';
+import { AppPlan } from '../services/plan';
 
 interface LivePreviewProps {
   creation: Creation | null;
   isLoading: boolean;
+  isPlanning: boolean; // The loading state is drafting a plan rather than the app
+  isRefining: boolean;
+  progress: GenerationProgress | null;
   isFocused: boolean;
   onReset: () => void;
   onRefine: (instruction: string) => Promise<void>;
-}
-
-// Add type definition for the global pdfjsLib
-declare global {
-  interface Window {
-    pdfjsLib: any;
-  }
+  onRevert: (revisionId: string) => void;
+  onSaveEdit: (html: string) => void;
+  onRegenerate: (changes: { mathGame?: MathGameSpec, plan?: AppPlan }) => void;
+  onPermissionsChange: (permissions: SandboxPermissions) => void;
+  onCancel: () => void;
+  onError: (error: unknown, retry?: () => void) => void;
 }
 
 // Tooltip Component
@@ -52,151 +78,322 @@ const LoadingStep = ({ text, active, completed }: { text: string, active: boolea
     </div>
 );
 
-const PdfRenderer = ({ dataUrl }: { dataUrl: string }) => {
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  useEffect(() => {
-    let isCancelled = false;
-
-    const renderPdf = async () => {
-      if (!window.pdfjsLib) {
-        if (!isCancelled) setError("PDF library not initialized");
-        setLoading(false);
-        return;
-      }
-
-      try {
-        setLoading(true);
-        const loadingTask = window.pdfjsLib.getDocument(dataUrl);
-        const pdf = await loadingTask.promise;
-        
-        if (isCancelled) return;
+// How often the streaming preview iframe is re-rendered while chunks arrive
+const STREAM_REFRESH_MS = 1000;
 
-        // Get the first page
-        const page = await pdf.getPage(1);
-        
-        const canvas = canvasRef.current;
-        if (!canvas) return;
+// Returns the latest value at most once per interval, always settling on the final value
+const useThrottledValue = <T,>(value: T, intervalMs: number): T => {
+    const [throttled, setThrottled] = useState(value);
+    const lastUpdateRef = useRef(0);
 
-        const context = canvas.getContext('2d');
-        if (!context) return;
-        
-        // Initial viewport at scale 1.0 to check dimensions
-        const initialViewport = page.getViewport({ scale: 1.0 });
-        
-        // Dynamic scaling: If it's a huge blueprint, don't supersample it.
-        // If it's a standard letter page, scale up for crispness on high DPI screens.
-        let scale = 1.5; 
-        if (initialViewport.width > 2000 || initialViewport.height > 2000) {
-            scale = 1.0; // Keep original size for large docs
-        } else if (initialViewport.width < 1000) {
-            scale = 2.0; // Supersample small docs
+    useEffect(() => {
+        const remaining = intervalMs - (Date.now() - lastUpdateRef.current);
+        if (remaining <= 0) {
+            lastUpdateRef.current = Date.now();
+            setThrottled(value);
+            return;
         }
+        const timeout = setTimeout(() => {
+            lastUpdateRef.current = Date.now();
+            setThrottled(value);
+        }, remaining);
+        return () => clearTimeout(timeout);
+    }, [value, intervalMs]);
 
-        const viewport = page.getViewport({ scale });
+    return throttled;
+};
 
-        canvas.height = viewport.height;
-        canvas.width = viewport.width;
+// Returns the value once it has stopped changing for the given delay
+const useDebouncedValue = <T,>(value: T, delayMs: number): T => {
+    const [debounced, setDebounced] = useState(value);
 
-        const renderContext = {
-          canvasContext: context,
-          viewport: viewport,
-        };
+    useEffect(() => {
+        const timeout = setTimeout(() => setDebounced(value), delayMs);
+        return () => clearTimeout(timeout);
+    }, [value, delayMs]);
 
-        await page.render(renderContext).promise;
-        if (!isCancelled) setLoading(false);
-      } catch (err) {
-        console.error("Error rendering PDF:", err);
-        if (!isCancelled) {
-            setError("Could not render PDF preview.");
-            setLoading(false);
-        }
-      }
-    };
+    return debounced;
+};
 
-    renderPdf();
+// How long typing in the code editor has to pause before the preview reloads
+const EDIT_RELOAD_MS = 600;
 
-    return () => {
-        isCancelled = true;
-    };
-  }, [dataUrl]);
+const STAGE_LABELS: Record<GenerationStage, string> = {
+    'request-sent': 'Sending request',
+    'thinking-started': 'Model thinking',
+    'thoughts-received': 'Receiving thought summaries',
+    'first-html': 'Writing HTML',
+    'generation-complete': 'Completing generation',
+    'cleanup-done': 'Cleaning up output',
+};
+
+// Steps up to the latest reached stage are done; the one after it is what we're waiting on
+const stageIndex = (progress: GenerationProgress | null) =>
+    progress ? GENERATION_STAGES.indexOf(progress.stage) : -1;
+
+// A plan streams JSON, not html
+const PLAN_STAGE_LABELS: Record<GenerationStage, string> = { ...STAGE_LABELS, 'first-html': 'Writing plan' };
+
+const pendingStageLabel = (progress: GenerationProgress | null, labels = STAGE_LABELS) =>
+    labels[GENERATION_STAGES[Math.min(stageIndex(progress) + 1, GENERATION_STAGES.length - 1)]];
+
+const ThoughtSummaries = ({ thoughts }: { thoughts: string[] }) => {
+    const [expanded, setExpanded] = useState(false);
+    if (thoughts.length === 0) return null;
 
-  if (error) {
     return (
-        <div className="flex flex-col items-center justify-center h-full text-zinc-500 p-6 text-center">
-            <DocumentIcon className="w-12 h-12 mb-3 opacity-50 text-red-400" />
-            <p className="text-sm mb-2 text-red-400/80">{error}</p>
+        <div className="border border-zinc-800 bg-black/30 rounded-lg">
+            <button
+                onClick={() => setExpanded(!expanded)}
+                className="w-full flex items-center justify-between px-4 py-2.5 text-left"
+            >
+                <span className="flex items-center space-x-2 text-xs font-mono uppercase tracking-wide text-zinc-400">
+                    <LightBulbIcon className="w-3.5 h-3.5 text-yellow-400/80" />
+                    <span>Thoughts ({thoughts.length})</span>
+                </span>
+                <ChevronDownIcon className={`w-3.5 h-3.5 text-zinc-500 transition-transform ${expanded ? 'rotate-180' : ''}`} />
+            </button>
+            {expanded && (
+                <div className="max-h-64 overflow-y-auto px-4 pb-3 space-y-3 border-t border-zinc-800/60 pt-3">
+                    {thoughts.map((thought, i) => (
+                        <p key={i} className="text-xs text-zinc-400 leading-relaxed whitespace-pre-wrap">
+                            {thought.trim()}
+                        </p>
+                    ))}
+                </div>
+            )}
         </div>
     );
-  }
+};
 
-  return (
-    <div className="relative w-full h-full flex items-center justify-center bg-zinc-900/50">
-        {loading && (
-            <div className="absolute inset-0 flex items-center justify-center z-10 pointer-events-none">
-                <div className="w-6 h-6 border-2 border-blue-500/30 border-t-blue-500 rounded-full animate-spin"></div>
-            </div>
-        )}
-        <canvas 
-            ref={canvasRef} 
-            className={`max-w-full max-h-full object-contain shadow-xl border border-zinc-800/50 rounded bg-white transition-opacity duration-500 ${loading ? 'opacity-0' : 'opacity-100'}`}
-        />
-    </div>
-  );
+const StreamCounter = ({ progress }: { progress: GenerationProgress | null }) => {
+    const chars = progress?.text.length ?? 0;
+    // Fall back to a rough 4 chars/token estimate until the API reports usage
+    const tokens = progress?.tokenCount ?? Math.round(chars / 4);
+    return (
+        <span className="text-[10px] font-mono text-zinc-500 tabular-nums">
+            {chars.toLocaleString()} chars · {progress?.tokenCount === undefined ? '~' : ''}{tokens.toLocaleString()} tokens
+            {progress && progress.attempt > 1 && <span className="text-yellow-500/80"> · retry {progress.attempt - 1}</span>}
+        </span>
+    );
 };
 
-export const LivePreview: React.FC<LivePreviewProps> = ({ creation, isLoading, isFocused, onReset, onRefine }) => {
-    const [loadingStep, setLoadingStep] = useState(0);
+const EXPORT_OPTIONS: { format: ExportFormat, label: string, description: string }[] = [
+    { format: 'html', label: 'HTML File', description: 'Opens in any browser' },
+    { format: 'zip', label: 'ZIP Bundle', description: 'App, input, revisions and manifest' },
+    { format: 'json', label: 'JSON Artifact', description: 'Re-import into this app' },
+];
+
+export const LivePreview: React.FC<LivePreviewProps> = ({ creation, isLoading, isPlanning, isRefining, progress, isFocused, onReset, onRefine, onRevert, onSaveEdit, onRegenerate, onPermissionsChange, onCancel, onError }) => {
     const [showSplitView, setShowSplitView] = useState(false);
+    const [inputIndex, setInputIndex] = useState(0);
     const [isAnalyzing, setIsAnalyzing] = useState(false);
-    const [analysisResult, setAnalysisResult] = useState<string | null>(null);
+    const [analysisResult, setAnalysisResult] = useState<AnalysisFinding[] | null>(null);
+    const [analysisFailed, setAnalysisFailed] = useState(false);
     const [showAnalysis, setShowAnalysis] = useState(false);
     
     // Refinement state
     const [refinementPrompt, setRefinementPrompt] = useState("");
-    const [isRefining, setIsRefining] = useState(false);
+    const [showExportMenu, setShowExportMenu] = useState(false);
+    const analysisControllerRef = useRef<AbortController | null>(null);
 
-    // Handle loading animation steps
-    useEffect(() => {
-        if (isLoading) {
-            setLoadingStep(0);
-            const interval = setInterval(() => {
-                setLoadingStep(prev => (prev < 3 ? prev + 1 : prev));
-            }, 2000); 
-            return () => clearInterval(interval);
-        } else {
-            setLoadingStep(0);
-        }
-    }, [isLoading]);
+    // Printable worksheet, created on request and shown in place of the preview
+    const [showWorksheet, setShowWorksheet] = useState(false);
+    const [worksheetHtml, setWorksheetHtml] = useState<string | null>(null);
+    const [isCreatingWorksheet, setIsCreatingWorksheet] = useState(false);
+    const [worksheetProgress, setWorksheetProgress] = useState<GenerationProgress | null>(null);
+    const worksheetControllerRef = useRef<AbortController | null>(null);
+
+    // Version timeline state
+    const [showTimeline, setShowTimeline] = useState(false);
+    const [previewRevisionId, setPreviewRevisionId] = useState<string | null>(null);
+    const [compareIds, setCompareIds] = useState<string[]>([]);
+
+    // Line diff of a version against the one before it, shown in the left panel
+    const [diffRevisionId, setDiffRevisionId] = useState<string | null>(null);
+    // The version a refinement just produced, offered for review until dismissed
+    const [recentRevisionId, setRecentRevisionId] = useState<string | null>(null);
+    const seenRevisionsRef = useRef<{ creationId?: string, count: number }>({ count: 0 });
+
+    // Console, app data, game settings and scores share the panel slot over the main preview iframe
+    const [openPanel, setOpenPanel] = useState<'console' | 'data' | 'game' | 'plan' | 'scores' | null>(null);
+    const previewFrameRef = useRef<HTMLIFrameElement>(null);
+
+    // Code editor; the draft is null until the code is edited
+    const [showCode, setShowCode] = useState(false);
+    const [draftHtml, setDraftHtml] = useState<string | null>(null);
+    const liveDraft = useDebouncedValue(draftHtml, EDIT_RELOAD_MS);
+
+    // Simulated device viewports; null fills the panel. Kept across creations while checking layouts
+    const [deviceView, setDeviceView] = useState<DeviceView | null>(null);
 
-    // Reset when creation changes
+    const streamedText = useThrottledValue(isPlanning ? '' : progress?.text ?? '', STREAM_REFRESH_MS);
+    const streamedTask = progress?.task ?? 'generate';
+    const streamedHtml = useMemo(() => partialHtml(streamedText, streamedTask), [streamedText, streamedTask]);
+    const stageLabels = isPlanning ? PLAN_STAGE_LABELS : STAGE_LABELS;
+    const reachedStage = stageIndex(progress);
+
+    const revisions = creation ? getRevisions(creation) : [];
+    const inputs = creation?.inputs ?? [];
+    const currentInput = inputs[Math.min(inputIndex, inputs.length - 1)];
+    const previewRevision = revisions.find(r => r.id === previewRevisionId);
+    const compareRevisions = compareIds.length === 2
+        ? revisions.filter(r => compareIds.includes(r.id))
+        : [];
+
+    const validation = previewRevision ? previewRevision.validation : creation?.validation;
+
+    const diffIndex = revisions.findIndex(r => r.id === diffRevisionId);
+    const diffRevision = diffIndex > 0 ? revisions[diffIndex] : undefined;
+    const diffBase = diffIndex > 0 ? revisions[diffIndex - 1] : undefined;
+    // The code editor and the changes take the left panel over from the input
+    const showsInput = showSplitView && !!currentInput && !showCode && !diffRevision;
+    const recentIndex = revisions.findIndex(r => r.id === recentRevisionId);
+    const recentStats = useMemo(() => {
+        if (recentIndex < 1) return null;
+        return diffStats(diffLines(revisions[recentIndex - 1].html, revisions[recentIndex].html));
+    }, [creation, recentIndex]);
+
+    // Every frame is sandboxed without same-origin access and gets a CSP matching the creation's permissions
+    const permissions = creation?.permissions ?? DEFAULT_PERMISSIONS;
+    const sandbox = sandboxAttribute(permissions);
+
+    // Only the current version writes back to the creation's app data; streamed and older
+    // versions get a throwaway copy. The document is rebuilt only when the data has to be
+    // reloaded, never on the app's own writes.
+    const appData = useAppData(creation?.id, previewFrameRef);
+    const isStreamingRefinement = isRefining && !!streamedHtml;
+    const isDirty = draftHtml !== null && draftHtml !== creation?.html;
+    // Unsaved edits may be half written, so like older versions they don't save app data
+    const showsDraft = showCode && liveDraft !== null;
+    const shownHtml = isStreamingRefinement ? streamedHtml
+        : previewRevision ? previewRevision.html
+        : showsDraft ? liveDraft
+        : creation?.html;
+    const persistsAppData = !isStreamingRefinement && !previewRevision && !showsDraft;
+    const previewDoc = useMemo(() => {
+        if (shownHtml === undefined || !appData.isReady) return undefined;
+        const html = injectStorageShim(shownHtml, appData.snapshot(), persistsAppData);
+        // Partial html streamed during a refinement is expected to break, so only finished versions get the error and game event bridges
+        return injectCsp(isStreamingRefinement ? html : injectBridge(injectGameEvents(html)), permissions);
+    }, [shownHtml, isStreamingRefinement, persistsAppData, permissions, appData.isReady, appData.version]);
+    // Plays are recorded under the same rule as app data: only the current version counts
+    const games = useGameSessions(creation?.id, previewFrameRef, persistsAppData);
+    // The second breakpoint runs its own copy of the app, so only the main frame saves data
+    const showsSecondary = !!deviceView?.secondary;
+    const secondaryDoc = useMemo(() => {
+        if (shownHtml === undefined || !appData.isReady || !showsSecondary) return undefined;
+        return injectCsp(injectStorageShim(shownHtml, appData.snapshot(), false), permissions);
+    }, [shownHtml, permissions, appData.isReady, appData.version, showsSecondary]);
+    const { errors: previewErrors, clearErrors } = usePreviewErrors(previewFrameRef, previewDoc);
+
+    // Reset when another creation or a new version is shown; permission changes keep the current view
     useEffect(() => {
-        if (creation?.originalImage) {
+        if (creation?.inputs?.length) {
             setShowSplitView(true);
         } else {
             setShowSplitView(false);
         }
+        setInputIndex(0);
         setAnalysisResult(null);
+        setAnalysisFailed(false);
         setShowAnalysis(false);
         setIsAnalyzing(false);
         setRefinementPrompt("");
-        setIsRefining(false);
-    }, [creation]);
+        setShowExportMenu(false);
+        setPreviewRevisionId(null);
+        setCompareIds([]);
+        setDraftHtml(null);
+        setDiffRevisionId(null);
+        setShowWorksheet(false);
+        setWorksheetHtml(null);
+        setIsCreatingWorksheet(false);
+        analysisControllerRef.current?.abort();
+        worksheetControllerRef.current?.abort();
+
+        // A version added to the creation already on screen came from a refinement, edit or revert
+        const seen = seenRevisionsRef.current;
+        const isNewVersion = !!creation && seen.creationId === creation.id && revisions.length > seen.count;
+        setRecentRevisionId(isNewVersion ? revisions[revisions.length - 1].id : null);
+        seenRevisionsRef.current = { creationId: creation?.id, count: revisions.length };
+    }, [creation?.id, creation?.timestamp]);
+
+    // Stop a running analysis or worksheet when the preview unmounts
+    useEffect(() => () => {
+        analysisControllerRef.current?.abort();
+        worksheetControllerRef.current?.abort();
+    }, []);
+
+    // Keep at most two revisions selected; picking a third replaces the oldest pick
+    const handleToggleCompare = (revisionId: string) => {
+        setCompareIds(prev => {
+            if (prev.includes(revisionId)) return prev.filter(id => id !== revisionId);
+            return [...prev, revisionId].slice(-2);
+        });
+    };
+
+    const handleRevert = (revisionId: string) => {
+        if (isRefining) return;
+        setPreviewRevisionId(null);
+        setCompareIds([]);
+        onRevert(revisionId);
+    };
 
-    const handleExport = () => {
+    const handleShowChanges = (revisionId: string | null) => {
+        setDiffRevisionId(revisionId);
+        setRecentRevisionId(null);
+        if (!revisionId) return;
+        setShowCode(false);
+        // Older versions are previewed alongside their changes
+        setPreviewRevisionId(revisionId === revisions[revisions.length - 1].id ? null : revisionId);
+        setCompareIds([]);
+    };
+
+    // Rejecting a refinement restores the version before it as a new version
+    const handleRejectChanges = () => {
+        if (!diffBase) return;
+        setDiffRevisionId(null);
+        handleRevert(diffBase.id);
+    };
+
+    const handleExport = async (format: ExportFormat) => {
+        if (!creation) return;
+        setShowExportMenu(false);
+        try {
+            await exportCreation(creation, format);
+        } catch (e) {
+            onError(e, () => handleExport(format));
+        }
+    };
+
+    // Worksheets are made from the current version and its original inputs
+    const handleCreateWorksheet = async () => {
         if (!creation) return;
-        const dataStr = JSON.stringify(creation, null, 2);
-        const blob = new Blob([dataStr], { type: "application/json" });
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = `${creation.name.replace(/[^a-z0-9]/gi, '_').toLowerCase()}_artifact.json`;
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        URL.revokeObjectURL(url);
+        setShowExportMenu(false);
+        setShowAnalysis(false);
+        setShowWorksheet(true);
+        worksheetControllerRef.current?.abort();
+        const controller = new AbortController();
+        worksheetControllerRef.current = controller;
+        setIsCreatingWorksheet(true);
+        setWorksheetProgress(null);
+        try {
+            const inputs = (creation.inputs ?? []).map(input => ({ data: input.dataUrl.split(',')[1], mimeType: input.mimeType, caption: input.caption }));
+            const worksheet = await createWorksheet(creation.html, inputs, creation.mathGame, { onProgress: setWorksheetProgress, signal: controller.signal });
+            setWorksheetHtml(worksheet.html);
+        } catch (e) {
+            // Aborted because it was cancelled or the creation changed
+            if (controller.signal.aborted) return;
+            onError(e, handleCreateWorksheet);
+        } finally {
+            if (!controller.signal.aborted) setIsCreatingWorksheet(false);
+        }
+    };
+
+    const handleCancelWorksheet = () => {
+        worksheetControllerRef.current?.abort();
+        setIsCreatingWorksheet(false);
+        if (!worksheetHtml) setShowWorksheet(false);
     };
 
     const handleToggleAnalysis = async () => {
@@ -208,33 +405,67 @@ export const LivePreview: React.FC<LivePreviewProps> = ({ creation, isLoading, i
         }
 
         setShowAnalysis(true);
+        setShowWorksheet(false);
 
-        if (!analysisResult && !isAnalyzing) {
-            setIsAnalyzing(true);
-            try {
-                const result = await analyzeCode(creation.html);
-                setAnalysisResult(result);
-            } catch (e) {
-                setAnalysisResult("Failed to retrieve analysis. Please try again.");
-            } finally {
-                setIsAnalyzing(false);
-            }
+        if ((!analysisResult || analysisFailed) && !isAnalyzing) {
+            runAnalysis(creation.html);
         }
     };
 
-    const handleRefinementSubmit = async () => {
-        if (!refinementPrompt.trim() || isRefining) return;
-        setIsRefining(true);
+    const runAnalysis = async (html: string) => {
+        setIsAnalyzing(true);
+        setAnalysisFailed(false);
+        const controller = new AbortController();
+        analysisControllerRef.current = controller;
         try {
-            await onRefine(refinementPrompt);
-            setRefinementPrompt("");
+            const result = await analyzeCode(html, { signal: controller.signal });
+            setAnalysisResult(result);
         } catch (e) {
-            console.error(e);
+            // Aborted because the creation changed; the reset effect already cleared state
+            if (controller.signal.aborted) return;
+            setAnalysisFailed(true);
+            onError(e, () => {
+                setShowAnalysis(true);
+                runAnalysis(html);
+            });
         } finally {
-            setIsRefining(false);
+            if (!controller.signal.aborted) setIsAnalyzing(false);
         }
     };
 
+    // Applying a finding produces a new version, which resets the analysis like any other refinement
+    const handleApplyFinding = (finding: AnalysisFinding) => {
+        if (isRefining) return;
+        setShowAnalysis(false);
+        onRefine(findingInstruction(finding));
+    };
+
+    // Errors from an older version can't be fixed in the current one
+    const handleFixErrors = () => {
+        if (isRefining || previewRevision || previewErrors.length === 0) return;
+        setOpenPanel(null);
+        onRefine(runtimeErrorsInstruction(previewErrors));
+    };
+
+    const handleRegenerate = (changes: { mathGame?: MathGameSpec, plan?: AppPlan }) => {
+        if (isRefining || isDirty) return;
+        setOpenPanel(null);
+        onRegenerate(changes);
+    };
+
+    // Saving creates a new version, which clears the draft
+    const handleSaveEdit = () => {
+        if (draftHtml === null || !isDirty || isRefining) return;
+        onSaveEdit(draftHtml);
+    };
+
+    // On success the new creation resets the bar; after a failure or cancel the instruction stays for another try.
+    // A refinement starts from the saved code, so it waits until edits are saved or discarded.
+    const handleRefinementSubmit = () => {
+        if (!refinementPrompt.trim() || isRefining || isDirty) return;
+        onRefine(refinementPrompt);
+    };
+
   return (
     <div
       className={`
@@ -285,26 +516,166 @@ export const LivePreview: React.FC<LivePreviewProps> = ({ creation, isLoading, i
                         </button>
                     </Tooltip>
 
-                    {creation.originalImage && (
-                        <Tooltip content={showSplitView ? "Show App Only" : "Compare with Input"}>
-                             <button 
-                                onClick={() => setShowSplitView(!showSplitView)}
-                                className={`p-1.5 rounded-md transition-all ${showSplitView ? 'bg-zinc-800 text-zinc-100' : 'text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800'}`}
+                    {validation && <ValidationStatus report={validation} />}
+
+                    <SandboxSettings permissions={permissions} onChange={onPermissionsChange} />
+
+                    <Tooltip content={previewErrors.length > 0 ? `Console (${previewErrors.length} errors)` : "Console"}>
+                        <button
+                            onClick={() => setOpenPanel(openPanel === 'console' ? null : 'console')}
+                            className={`relative p-1.5 rounded-md transition-all ${openPanel === 'console' ? 'bg-zinc-800 text-zinc-100' : previewErrors.length > 0 ? 'text-red-400 hover:bg-zinc-800' : 'text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800'}`}
+                        >
+                            <CommandLineIcon className="w-4 h-4" />
+                            {previewErrors.length > 0 && (
+                                <span className="absolute -top-0.5 -right-0.5 min-w-[14px] h-3.5 px-0.5 rounded-full bg-red-600 text-[9px] font-mono text-white flex items-center justify-center">
+                                    {previewErrors.length > 99 ? '99+' : previewErrors.length}
+                                </span>
+                            )}
+                        </button>
+                    </Tooltip>
+
+                    {creation?.mathGame && (
+                        <Tooltip content="Game Settings">
+                            <button
+                                onClick={() => setOpenPanel(openPanel === 'game' ? null : 'game')}
+                                className={`p-1.5 rounded-md transition-all ${openPanel === 'game' ? 'bg-zinc-800 text-zinc-100' : 'text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800'}`}
                             >
-                                <ViewColumnsIcon className="w-4 h-4" />
+                                <CalculatorIcon className="w-4 h-4" />
                             </button>
                         </Tooltip>
                     )}
 
-                    <Tooltip content="Export JSON">
-                        <button 
-                            onClick={handleExport}
-                            className="text-zinc-500 hover:text-zinc-300 transition-colors p-1.5 rounded-md hover:bg-zinc-800"
+                    {creation?.plan && (
+                        <Tooltip content="Plan">
+                            <button
+                                onClick={() => setOpenPanel(openPanel === 'plan' ? null : 'plan')}
+                                className={`p-1.5 rounded-md transition-all ${openPanel === 'plan' ? 'bg-zinc-800 text-zinc-100' : 'text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800'}`}
+                            >
+                                <ClipboardDocumentListIcon className="w-4 h-4" />
+                            </button>
+                        </Tooltip>
+                    )}
+
+                    {(creation?.mathGame || games.sessions.length > 0) && (
+                        <Tooltip content={`Leaderboard (${games.sessions.length} plays)`}>
+                            <button
+                                onClick={() => setOpenPanel(openPanel === 'scores' ? null : 'scores')}
+                                className={`p-1.5 rounded-md transition-all ${openPanel === 'scores' ? 'bg-zinc-800 text-zinc-100' : 'text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800'}`}
+                            >
+                                <TrophyIcon className="w-4 h-4" />
+                            </button>
+                        </Tooltip>
+                    )}
+
+                    <Tooltip content={`App Data (${Object.keys(appData.data).length} keys)`}>
+                        <button
+                            onClick={() => setOpenPanel(openPanel === 'data' ? null : 'data')}
+                            className={`p-1.5 rounded-md transition-all ${openPanel === 'data' ? 'bg-zinc-800 text-zinc-100' : 'text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800'}`}
+                        >
+                            <CircleStackIcon className="w-4 h-4" />
+                        </button>
+                    </Tooltip>
+
+                    <Tooltip content={deviceView ? "Fill Panel" : "Device Preview"}>
+                        <button
+                            onClick={() => setDeviceView(deviceView ? null : DEFAULT_DEVICE_VIEW)}
+                            className={`p-1.5 rounded-md transition-all ${deviceView ? 'bg-zinc-800 text-zinc-100' : 'text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800'}`}
+                        >
+                            <DeviceTabletIcon className="w-4 h-4" />
+                        </button>
+                    </Tooltip>
+
+                    {revisions.length > 1 && (
+                        <Tooltip content={showTimeline ? "Hide Versions" : `Versions (${revisions.length})`}>
+                            <button
+                                onClick={() => setShowTimeline(!showTimeline)}
+                                className={`p-1.5 rounded-md transition-all ${showTimeline ? 'bg-zinc-800 text-zinc-100' : 'text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800'}`}
+                            >
+                                <ClockIcon className="w-4 h-4" />
+                            </button>
+                        </Tooltip>
+                    )}
+
+                    {revisions.length > 1 && (
+                        <Tooltip content={diffRevision ? "Hide Changes" : "Review Changes"}>
+                            <button
+                                onClick={() => handleShowChanges(diffRevision ? null : revisions[revisions.length - 1].id)}
+                                className={`p-1.5 rounded-md transition-all ${diffRevision ? 'bg-zinc-800 text-zinc-100' : 'text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800'}`}
+                            >
+                                <DocumentMagnifyingGlassIcon className="w-4 h-4" />
+                            </button>
+                        </Tooltip>
+                    )}
+
+                    <Tooltip content={showCode ? "Hide Code" : "Edit Code"}>
+                        <button
+                            onClick={() => {
+                                setShowCode(!showCode);
+                                setDiffRevisionId(null);
+                            }}
+                            className={`relative p-1.5 rounded-md transition-all ${showCode ? 'bg-zinc-800 text-zinc-100' : 'text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800'}`}
                         >
-                            <ArrowDownTrayIcon className="w-4 h-4" />
+                            <CodeBracketSquareIcon className="w-4 h-4" />
+                            {isDirty && <span className="absolute top-0.5 right-0.5 w-1.5 h-1.5 rounded-full bg-yellow-400" />}
                         </button>
                     </Tooltip>
 
+                    {currentInput && (
+                        <Tooltip content={showsInput ? "Show App Only" : "Compare with Input"}>
+                             <button 
+                                onClick={() => {
+                                    setShowSplitView(!showsInput);
+                                    setShowCode(false);
+                                    setDiffRevisionId(null);
+                                }}
+                                className={`p-1.5 rounded-md transition-all ${showsInput ? 'bg-zinc-800 text-zinc-100' : 'text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800'}`}
+                            >
+                                <ViewColumnsIcon className="w-4 h-4" />
+                            </button>
+                        </Tooltip>
+                    )}
+
+                    <div className="relative">
+                        <Tooltip content="Export">
+                            <button 
+                                onClick={() => setShowExportMenu(!showExportMenu)}
+                                className={`transition-colors p-1.5 rounded-md ${showExportMenu ? 'bg-zinc-800 text-zinc-100' : 'text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800'}`}
+                            >
+                                <ArrowDownTrayIcon className="w-4 h-4" />
+                            </button>
+                        </Tooltip>
+                        {showExportMenu && (
+                            <div className="absolute right-0 top-full mt-2 w-56 bg-zinc-900 border border-zinc-800 rounded-lg shadow-2xl py-1 z-50 animate-in fade-in slide-in-from-top-1 duration-150">
+                                {EXPORT_OPTIONS.map(option => (
+                                    <button
+                                        key={option.format}
+                                        onClick={() => handleExport(option.format)}
+                                        className="w-full text-left px-3 py-2 hover:bg-zinc-800 transition-colors"
+                                    >
+                                        <span className="block text-xs font-medium text-zinc-200">{option.label}</span>
+                                        <span className="block text-[10px] text-zinc-500">{option.description}</span>
+                                    </button>
+                                ))}
+                                <div className="my-1 border-t border-zinc-800" />
+                                <button
+                                    onClick={() => {
+                                        if (worksheetHtml || isCreatingWorksheet) {
+                                            setShowExportMenu(false);
+                                            setShowAnalysis(false);
+                                            setShowWorksheet(true);
+                                        } else {
+                                            handleCreateWorksheet();
+                                        }
+                                    }}
+                                    className="w-full text-left px-3 py-2 hover:bg-zinc-800 transition-colors"
+                                >
+                                    <span className="block text-xs font-medium text-zinc-200">Printable Worksheet</span>
+                                    <span className="block text-[10px] text-zinc-500">Problems and answer key to print or save as PDF</span>
+                                </button>
+                            </div>
+                        )}
+                    </div>
+
                     <Tooltip content="New Upload">
                         <button 
                             onClick={onReset}
@@ -322,7 +693,8 @@ export const LivePreview: React.FC<LivePreviewProps> = ({ creation, isLoading, i
       {/* Main Content Area */}
       <div className="relative w-full flex-1 bg-[#09090b] flex overflow-hidden">
         {isLoading ? (
-          <div className="absolute inset-0 flex flex-col items-center justify-center p-8 w-full">
+          <div className="absolute inset-0 flex flex-col md:flex-row w-full">
+           <div className={`flex flex-col items-center justify-center overflow-y-auto p-8 ${streamedHtml ? 'md:w-[28rem] shrink-0 border-b md:border-b-0 md:border-r border-zinc-800' : 'w-full h-full'}`}>
              {/* Technical Loading State */}
              <div className="w-full max-w-md space-y-8">
                 <div className="flex flex-col items-center">
@@ -331,8 +703,10 @@ export const LivePreview: React.FC<LivePreviewProps> = ({ creation, isLoading, i
                            <path strokeLinecap="round" strokeLinejoin="round" d="M12 6v6h4.5m4.5 0a9 9 0 11-18 0 9 9 0 0118 0z" />
                         </svg>
                     </div>
-                    <h3 className="text-zinc-100 font-mono text-lg tracking-tight">Constructing Environment</h3>
-                    <p className="text-zinc-500 text-sm mt-2">Interpreting visual data...</p>
+                    <h3 className="text-zinc-100 font-mono text-lg tracking-tight">{isPlanning ? 'Drafting Plan' : 'Constructing Environment'}</h3>
+                    <p className="text-zinc-500 text-sm mt-2">
+                        {pendingStageLabel(progress, stageLabels)}...
+                    </p>
                 </div>
 
                 {/* Progress Bar */}
@@ -342,12 +716,41 @@ export const LivePreview: React.FC<LivePreviewProps> = ({ creation, isLoading, i
 
                  {/* Terminal Steps */}
                  <div className="border border-zinc-800 bg-black/50 rounded-lg p-4 space-y-3 font-mono text-sm">
-                     <LoadingStep text="Analyzing visual inputs" active={loadingStep === 0} completed={loadingStep > 0} />
-                     <LoadingStep text="Identifying UI patterns" active={loadingStep === 1} completed={loadingStep > 1} />
-                     <LoadingStep text="Generating functional logic" active={loadingStep === 2} completed={loadingStep > 2} />
-                     <LoadingStep text="Compiling preview" active={loadingStep === 3} completed={loadingStep > 3} />
+                     {GENERATION_STAGES.map((stage, i) => (
+                         <LoadingStep key={stage} text={stageLabels[stage]} active={i === reachedStage + 1} completed={i <= reachedStage} />
+                     ))}
+                 </div>
+
+                 {progress && <ThoughtSummaries thoughts={progress.thoughts} />}
+
+                 <div className="flex items-center justify-between">
+                     {progress ? <StreamCounter progress={progress} /> : <span />}
+                     <button
+                         onClick={onCancel}
+                         className="flex items-center space-x-1.5 text-xs font-medium text-zinc-400 hover:text-white bg-zinc-900 hover:bg-zinc-800 border border-zinc-800 px-3 py-1.5 rounded-md transition-colors"
+                     >
+                         <XMarkIcon className="w-3.5 h-3.5" />
+                         <span>Cancel</span>
+                     </button>
                  </div>
              </div>
+           </div>
+
+           {/* Progressive Preview of the streamed HTML */}
+           {streamedHtml && (
+               <div className="relative flex-1 bg-white">
+                   <div className="absolute top-2 right-2 z-10 flex items-center space-x-1.5 bg-black/80 backdrop-blur text-zinc-300 text-[10px] font-mono uppercase px-2 py-1 rounded border border-zinc-800">
+                       <div className="w-1.5 h-1.5 bg-red-500 rounded-full animate-pulse"></div>
+                       <span>Live</span>
+                   </div>
+                   <iframe
+                       title="Streaming Preview"
+                       srcDoc={injectCsp(injectStorageShim(streamedHtml, {}, false))}
+                       className="w-full h-full"
+                       sandbox={sandboxAttribute()}
+                   />
+               </div>
+           )}
           </div>
         ) : showAnalysis ? (
              <div className="w-full h-full overflow-y-auto p-6 md:p-8 bg-[#0c0c0e]">
@@ -358,7 +761,7 @@ export const LivePreview: React.FC<LivePreviewProps> = ({ creation, isLoading, i
                         </div>
                         <div>
                             <h2 className="text-lg font-medium text-white">Code Analysis</h2>
-                            <p className="text-xs text-zinc-500 font-mono">Automated review by Gemini 3 Pro</p>
+                            <p className="text-xs text-zinc-500 font-mono">Automated review by {getProvider().label}</p>
                         </div>
                     </div>
                     
@@ -367,59 +770,283 @@ export const LivePreview: React.FC<LivePreviewProps> = ({ creation, isLoading, i
                             <div className="w-6 h-6 border-2 border-zinc-700 border-t-blue-500 rounded-full animate-spin"></div>
                             <span className="text-sm text-zinc-500 animate-pulse">Analyzing logic and structure...</span>
                         </div>
+                    ) : analysisFailed || !analysisResult ? (
+                        <p className="py-20 text-center text-sm text-zinc-500">Analysis unavailable.</p>
                     ) : (
-                        <div className="prose prose-invert prose-sm max-w-none font-mono">
-                            <pre className="whitespace-pre-wrap bg-transparent p-0 text-zinc-300 font-mono text-sm leading-relaxed">
-                                {analysisResult}
-                            </pre>
-                        </div>
+                        <AnalysisFindings findings={analysisResult} disabled={isRefining} onApply={handleApplyFinding} />
                     )}
                  </div>
              </div>
+        ) : showWorksheet && creation ? (
+            <WorksheetPreview
+                html={worksheetHtml}
+                isCreating={isCreatingWorksheet}
+                status={worksheetProgress ? `${pendingStageLabel(worksheetProgress)}...` : 'Writing worksheet...'}
+                providerLabel={getProvider().label}
+                onRegenerate={handleCreateWorksheet}
+                onDownload={() => worksheetHtml && downloadWorksheet(creation, worksheetHtml)}
+                onCancel={handleCancelWorksheet}
+                onClose={() => setShowWorksheet(false)}
+            />
         ) : creation?.html ? (
           <>
+            {/* Split View: Left Panel (Changes) */}
+            {diffRevision && diffBase && (
+                <div className="w-full md:w-1/2 h-1/2 md:h-full border-b md:border-b-0 md:border-r border-zinc-800 shrink-0">
+                    <DiffView
+                        key={diffRevision.id}
+                        before={diffBase.html}
+                        after={diffRevision.html}
+                        beforeLabel={`v${diffIndex}`}
+                        afterLabel={`v${diffIndex + 1}`}
+                        instruction={diffRevision.instruction}
+                        restoreLabel={diffIndex === revisions.length - 1 && !isRefining ? `Reject and restore v${diffIndex}` : undefined}
+                        onRestore={handleRejectChanges}
+                        onClose={() => setDiffRevisionId(null)}
+                    />
+                </div>
+            )}
+
+            {/* Split View: Left Panel (Code Editor) */}
+            {showCode && (
+                <div className="w-full md:w-1/2 h-1/2 md:h-full border-b md:border-b-0 md:border-r border-zinc-800 shrink-0">
+                    <CodeEditor
+                        value={draftHtml ?? creation.html}
+                        isDirty={isDirty}
+                        onChange={setDraftHtml}
+                        onSave={handleSaveEdit}
+                        onDiscard={() => setDraftHtml(null)}
+                    />
+                </div>
+            )}
+
             {/* Split View: Left Panel (Original Image) */}
-            {showSplitView && creation.originalImage && (
+            {showsInput && currentInput && (
                 <div className="w-full md:w-1/2 h-1/2 md:h-full border-b md:border-b-0 md:border-r border-zinc-800 bg-[#0c0c0e] relative flex flex-col shrink-0">
                     <div className="absolute top-4 left-4 z-10 bg-black/80 backdrop-blur text-zinc-400 text-[10px] font-mono uppercase px-2 py-1 rounded border border-zinc-800">
-                        Input Source
+                        Input Source{inputs.length > 1 && ` ${inputs.indexOf(currentInput) + 1} / ${inputs.length}`}
                     </div>
-                    <div className="w-full h-full p-6 flex items-center justify-center overflow-hidden">
-                        {creation.originalImage.startsWith('data:application/pdf') ? (
-                            <PdfRenderer dataUrl={creation.originalImage} />
+                    {inputs.length > 1 && (
+                        <div className="absolute top-4 right-4 z-10 flex items-center space-x-1">
+                            <button
+                                onClick={() => setInputIndex(i => Math.max(0, i - 1))}
+                                disabled={inputIndex === 0}
+                                className="p-1 bg-black/80 backdrop-blur text-zinc-400 hover:text-white rounded border border-zinc-800 disabled:opacity-30 disabled:hover:text-zinc-400 transition-colors"
+                                title="Previous input"
+                            >
+                                <ChevronLeftIcon className="w-3.5 h-3.5" />
+                            </button>
+                            <button
+                                onClick={() => setInputIndex(i => Math.min(inputs.length - 1, i + 1))}
+                                disabled={inputIndex >= inputs.length - 1}
+                                className="p-1 bg-black/80 backdrop-blur text-zinc-400 hover:text-white rounded border border-zinc-800 disabled:opacity-30 disabled:hover:text-zinc-400 transition-colors"
+                                title="Next input"
+                            >
+                                <ChevronRightIcon className="w-3.5 h-3.5" />
+                            </button>
+                        </div>
+                    )}
+                    <div className={`w-full flex-1 min-h-0 flex items-center justify-center overflow-hidden ${currentInput.mimeType === 'application/pdf' ? 'pt-12' : 'p-6'}`}>
+                        {currentInput.mimeType === 'application/pdf' ? (
+                            <PdfViewer dataUrl={currentInput.dataUrl} />
                         ) : (
                             <img 
-                                src={creation.originalImage} 
-                                alt="Original Input" 
+                                src={currentInput.dataUrl} 
+                                alt={currentInput.caption || currentInput.name} 
                                 className="max-w-full max-h-full object-contain shadow-xl border border-zinc-800/50 rounded"
                             />
                         )}
                     </div>
+                    {currentInput.caption && (
+                        <p className="px-6 pb-4 -mt-2 text-xs text-zinc-400 text-center truncate" title={currentInput.caption}>
+                            {currentInput.caption}
+                        </p>
+                    )}
                 </div>
             )}
 
             {/* App Preview Panel */}
-            <div className={`relative h-full bg-white transition-all duration-500 ${showSplitView && creation.originalImage ? 'w-full md:w-1/2 h-1/2 md:h-full' : 'w-full'}`}>
-                 <iframe
-                    title="Gemini Live Preview"
-                    srcDoc={creation.html}
-                    className="w-full h-full"
-                    sandbox="allow-scripts allow-forms allow-popups allow-modals allow-same-origin"
-                />
-                
-                {/* Refinement Overlay (During Loading) */}
-                {isRefining && (
-                    <div className="absolute inset-0 bg-black/50 backdrop-blur-sm flex flex-col items-center justify-center z-10 animate-in fade-in">
-                        <div className="p-4 bg-zinc-900 border border-zinc-800 rounded-xl shadow-2xl flex items-center space-x-3">
-                             <div className="w-5 h-5 border-2 border-blue-500/30 border-t-blue-500 rounded-full animate-spin"></div>
-                             <span className="text-sm font-mono text-zinc-200">Refining application...</span>
+            <div className={`relative h-full flex flex-col bg-white transition-all duration-500 ${showCode || diffRevision || showsInput ? 'w-full md:w-1/2 h-1/2 md:h-full' : 'w-full'}`}>
+                {deviceView && <ViewportToolbar view={deviceView} onChange={setDeviceView} onClose={() => setDeviceView(null)} />}
+                <div className="relative flex-1 min-h-0">
+                    {compareRevisions.length === 2 ? (
+                        <div className="w-full h-full flex divide-x divide-zinc-800 bg-[#09090b]">
+                            {compareRevisions.map(revision => (
+                                <div key={revision.id} className="relative flex-1 h-full bg-white">
+                                    <div className="absolute top-2 left-2 z-10 bg-black/80 backdrop-blur text-zinc-300 text-[10px] font-mono uppercase px-2 py-1 rounded border border-zinc-800">
+                                        v{revisions.indexOf(revision) + 1}
+                                    </div>
+                                    <DeviceFrame viewport={deviceView?.primary ?? null} fit={deviceView?.fit ?? true}>
+                                        <iframe
+                                            title={`Version ${revisions.indexOf(revision) + 1}`}
+                                            srcDoc={injectCsp(injectStorageShim(revision.html, appData.snapshot(), false), permissions)}
+                                            className="w-full h-full"
+                                            sandbox={sandbox}
+                                        />
+                                    </DeviceFrame>
+                                </div>
+                            ))}
                         </div>
-                    </div>
-                )}
+                    ) : (
+                        <div className="w-full h-full flex divide-x divide-zinc-800">
+                            <DeviceFrame viewport={deviceView?.primary ?? null} fit={deviceView?.fit ?? true}>
+                                {/* Sandbox flags only apply on load, so a permission change needs a fresh frame */}
+                                <iframe
+                                    key={sandbox}
+                                    ref={previewFrameRef}
+                                    title="Gemini Live Preview"
+                                    srcDoc={previewDoc}
+                                    className="w-full h-full"
+                                    sandbox={sandbox}
+                                />
+                            </DeviceFrame>
+                            {deviceView?.secondary && (
+                                <DeviceFrame viewport={deviceView.secondary} fit={deviceView.fit}>
+                                    <iframe
+                                        key={sandbox}
+                                        title="Second Breakpoint"
+                                        srcDoc={secondaryDoc}
+                                        className="w-full h-full"
+                                        sandbox={sandbox}
+                                    />
+                                </DeviceFrame>
+                            )}
+                        </div>
+                    )}
+
+                    {openPanel === 'console' && compareRevisions.length !== 2 && (
+                        <ErrorConsole
+                            errors={previewErrors}
+                            canFix={!isRefining && !previewRevision}
+                            onFix={handleFixErrors}
+                            onClear={clearErrors}
+                            onClose={() => setOpenPanel(null)}
+                        />
+                    )}
+
+                    {openPanel === 'data' && compareRevisions.length !== 2 && (
+                        <AppDataPanel
+                            data={appData.data}
+                            onReset={appData.reset}
+                            onRemoveKey={appData.removeKey}
+                            onClose={() => setOpenPanel(null)}
+                        />
+                    )}
+
+                    {openPanel === 'game' && creation.mathGame && compareRevisions.length !== 2 && (
+                        // Keyed by version so the form starts from the spec of whatever is current
+                        <MathGamePanel
+                            key={creation.timestamp.getTime()}
+                            spec={creation.mathGame}
+                            disabled={isRefining || isDirty}
+                            onRegenerate={mathGame => handleRegenerate({ mathGame })}
+                            onClose={() => setOpenPanel(null)}
+                        />
+                    )}
+
+                    {openPanel === 'plan' && creation.plan && compareRevisions.length !== 2 && (
+                        <PlanPanel
+                            key={creation.timestamp.getTime()}
+                            plan={creation.plan}
+                            disabled={isRefining || isDirty}
+                            onRebuild={plan => handleRegenerate({ plan })}
+                            onClose={() => setOpenPanel(null)}
+                        />
+                    )}
+
+                    {openPanel === 'scores' && compareRevisions.length !== 2 && (
+                        <LeaderboardPanel
+                            sessions={games.sessions}
+                            player={games.player}
+                            onPlayerChange={games.setPlayer}
+                            onClear={games.clear}
+                            onClose={() => setOpenPanel(null)}
+                        />
+                    )}
+
+                    {games.lastResult && openPanel !== 'scores' && compareRevisions.length !== 2 && (
+                        <GameResultToast
+                            result={games.lastResult}
+                            onOpen={() => {
+                                setOpenPanel('scores');
+                                games.dismissResult();
+                            }}
+                            onDismiss={games.dismissResult}
+                        />
+                    )}
+
+                    {/* Older Version Banner */}
+                    {previewRevision && compareRevisions.length !== 2 && (
+                        <div className="absolute top-3 left-1/2 -translate-x-1/2 z-20 flex items-center space-x-3 bg-zinc-900/95 border border-zinc-700 rounded-lg px-3 py-2 shadow-xl">
+                            <span className="text-xs font-mono text-zinc-300">
+                                Previewing v{revisions.indexOf(previewRevision) + 1}
+                            </span>
+                            <button
+                                onClick={() => handleRevert(previewRevision.id)}
+                                disabled={isRefining}
+                                className="text-xs font-medium text-blue-400 hover:text-blue-300 disabled:opacity-40 disabled:pointer-events-none"
+                            >
+                                Revert
+                            </button>
+                            <button
+                                onClick={() => setPreviewRevisionId(null)}
+                                className="text-xs font-medium text-zinc-500 hover:text-zinc-300"
+                            >
+                                Back to current
+                            </button>
+                        </div>
+                    )}
+
+                    {/* Refinement Overlay (During Loading) */}
+                    {isRefining && (
+                        <div className={`absolute inset-0 flex flex-col items-center justify-center z-10 animate-in fade-in ${streamedHtml ? 'bg-black/10' : 'bg-black/50 backdrop-blur-sm'}`}>
+                            <div className="p-4 bg-zinc-900 border border-zinc-800 rounded-xl shadow-2xl flex items-center space-x-3">
+                                 <div className="w-5 h-5 border-2 border-blue-500/30 border-t-blue-500 rounded-full animate-spin"></div>
+                                 <div className="flex flex-col">
+                                     <span className="text-sm font-mono text-zinc-200">
+                                         {progress ? `${pendingStageLabel(progress)}...` : 'Refining application...'}
+                                     </span>
+                                     {progress && <StreamCounter progress={progress} />}
+                                 </div>
+                                 <button
+                                     onClick={onCancel}
+                                     className="ml-2 p-1.5 rounded-md text-zinc-500 hover:text-white hover:bg-zinc-800 transition-colors"
+                                     title="Cancel refinement"
+                                 >
+                                     <XMarkIcon className="w-4 h-4" />
+                                 </button>
+                            </div>
+                        </div>
+                    )}
+                </div>
             </div>
 
             {/* Floating Refinement Bar */}
-            <div className="absolute bottom-6 left-1/2 -translate-x-1/2 w-full max-w-lg px-4 z-30">
+            <div className={`absolute bottom-6 -translate-x-1/2 w-full max-w-lg px-4 z-30 ${showCode || diffRevision ? 'left-1/2 md:left-3/4 md:max-w-[50%]' : 'left-1/2'}`}>
+                 {recentStats && !isRefining && (
+                    <div className="mb-2 flex justify-center">
+                        <div className="flex items-center space-x-2 bg-zinc-900/95 border border-zinc-700 rounded-full pl-3 pr-1 py-1 shadow-xl text-[11px]">
+                            <span className="font-mono">
+                                <span className="text-green-400">+{recentStats.added}</span>{' '}
+                                <span className="text-red-400">−{recentStats.removed}</span>
+                                <span className="text-zinc-500"> lines</span>
+                            </span>
+                            <button
+                                onClick={() => handleShowChanges(recentRevisionId)}
+                                className="font-medium text-blue-400 hover:text-blue-300"
+                            >
+                                Review changes
+                            </button>
+                            <button
+                                onClick={() => setRecentRevisionId(null)}
+                                className="p-0.5 rounded-full text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800"
+                                title="Dismiss"
+                            >
+                                <XMarkIcon className="w-3 h-3" />
+                            </button>
+                        </div>
+                    </div>
+                 )}
                  <div className="relative group">
                     <div className="absolute -inset-0.5 bg-gradient-to-r from-blue-500/20 to-purple-500/20 rounded-xl blur opacity-0 group-hover:opacity-100 transition duration-500"></div>
                     <div className="relative flex items-center bg-zinc-900/90 backdrop-blur-md border border-zinc-700/50 shadow-2xl rounded-xl overflow-hidden">
@@ -431,13 +1058,13 @@ export const LivePreview: React.FC<LivePreviewProps> = ({ creation, isLoading, i
                             value={refinementPrompt}
                             onChange={(e) => setRefinementPrompt(e.target.value)}
                             onKeyDown={(e) => e.key === 'Enter' && handleRefinementSubmit()}
-                            placeholder="Type to refine (e.g., 'Make the background blue', 'Add a score counter')"
+                            placeholder={isDirty ? "Save or discard your code changes to refine" : "Type to refine (e.g., 'Make the background blue', 'Add a score counter')"}
                             className="w-full bg-transparent text-sm text-zinc-100 placeholder-zinc-500 px-3 py-3.5 focus:outline-none"
-                            disabled={isRefining}
+                            disabled={isRefining || isDirty}
                         />
                         <button 
                             onClick={handleRefinementSubmit}
-                            disabled={!refinementPrompt.trim() || isRefining}
+                            disabled={!refinementPrompt.trim() || isRefining || isDirty}
                             className="mr-1.5 p-2 rounded-lg text-white bg-blue-600 hover:bg-blue-500 disabled:opacity-0 disabled:pointer-events-none transition-all"
                         >
                             <PaperAirplaneIcon className="w-3.5 h-3.5" />
@@ -445,6 +1072,20 @@ export const LivePreview: React.FC<LivePreviewProps> = ({ creation, isLoading, i
                     </div>
                  </div>
             </div>
+
+            {/* Version Timeline */}
+            {showTimeline && (
+                <RevisionTimeline
+                    revisions={revisions}
+                    previewId={previewRevisionId}
+                    compareIds={compareIds}
+                    onPreview={setPreviewRevisionId}
+                    onRevert={handleRevert}
+                    canRevert={!isRefining}
+                    onToggleCompare={handleToggleCompare}
+                    onShowChanges={handleShowChanges}
+                />
+            )}
           </>
         ) : null}
       </div>
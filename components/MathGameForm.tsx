@@ -0,0 +1,208 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { ArrowPathIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import {
+  MathGameSpec, MathOperation, MATH_OPERATIONS, DIFFICULTY_CURVES, GAME_MECHANICS, OPERATION_LABELS, DIFFICULTY_LABELS,
+  MECHANIC_LABELS, MAX_GRADE, MAX_ROUNDS, MAX_NUMBER, gradeLabel, mathGameProblems, describeMathGame,
+} from '../services/mathGame';
+
+interface MathGameFormProps {
+  spec: MathGameSpec;
+  onChange: (spec: MathGameSpec) => void;
+  disabled?: boolean;
+}
+
+const Field = ({ label, children }: { label: string, children: React.ReactNode }) => (
+  <div className="space-y-1.5">
+    <span className="block text-[10px] font-mono uppercase tracking-wider text-zinc-500">{label}</span>
+    {children}
+  </div>
+);
+
+const chipClass = (selected: boolean) =>
+  `px-2.5 py-1 rounded-md border text-xs transition-colors disabled:opacity-50 ${selected
+    ? 'border-blue-500/60 bg-blue-500/15 text-blue-200'
+    : 'border-zinc-800 text-zinc-400 hover:border-zinc-600 hover:text-zinc-200'}`;
+
+const numberInputClass = 'w-24 bg-zinc-950 border border-zinc-800 focus:border-blue-500/50 rounded px-2 py-1 text-xs text-zinc-200 focus:outline-none disabled:opacity-50';
+
+// Empty or partial input is kept as NaN so the form can flag it instead of guessing a value
+const parseNumber = (value: string) => (value.trim() === '' ? NaN : Number(value));
+
+export const MathGameForm: React.FC<MathGameFormProps> = ({ spec, onChange, disabled = false }) => {
+  const update = (changes: Partial<MathGameSpec>) => onChange({ ...spec, ...changes });
+  const problems = mathGameProblems(spec);
+
+  const toggleOperation = (operation: MathOperation) => {
+    const operations = spec.operations.includes(operation)
+      ? spec.operations.filter(op => op !== operation)
+      : MATH_OPERATIONS.filter(op => op === operation || spec.operations.includes(op));
+    update({ operations });
+  };
+
+  return (
+    <div className="w-full grid grid-cols-1 md:grid-cols-2 gap-5 text-left">
+      <Field label={`Grade level · ${gradeLabel(spec.grade)}`}>
+        <input
+          type="range"
+          min={0}
+          max={MAX_GRADE}
+          value={spec.grade}
+          onChange={(e) => update({ grade: Number(e.target.value) })}
+          disabled={disabled}
+          className="w-full accent-blue-500"
+        />
+        <div className="flex justify-between text-[10px] font-mono text-zinc-600">
+          <span>K</span>
+          <span>{MAX_GRADE}</span>
+        </div>
+      </Field>
+
+      <Field label="Operations">
+        <div className="flex flex-wrap gap-1.5">
+          {MATH_OPERATIONS.map(operation => (
+            <button
+              key={operation}
+              type="button"
+              onClick={() => toggleOperation(operation)}
+              disabled={disabled}
+              aria-pressed={spec.operations.includes(operation)}
+              className={chipClass(spec.operations.includes(operation))}
+            >
+              {OPERATION_LABELS[operation]}
+            </button>
+          ))}
+        </div>
+      </Field>
+
+      <Field label="Number range">
+        <div className="flex items-center space-x-2 text-xs text-zinc-500">
+          <input
+            type="number"
+            value={Number.isNaN(spec.minNumber) ? '' : spec.minNumber}
+            min={-MAX_NUMBER}
+            max={MAX_NUMBER}
+            onChange={(e) => update({ minNumber: parseNumber(e.target.value) })}
+            disabled={disabled}
+            className={numberInputClass}
+            aria-label="Smallest number"
+          />
+          <span>to</span>
+          <input
+            type="number"
+            value={Number.isNaN(spec.maxNumber) ? '' : spec.maxNumber}
+            min={-MAX_NUMBER}
+            max={MAX_NUMBER}
+            onChange={(e) => update({ maxNumber: parseNumber(e.target.value) })}
+            disabled={disabled}
+            className={numberInputClass}
+            aria-label="Largest number"
+          />
+        </div>
+      </Field>
+
+      <Field label="Rounds">
+        <input
+          type="number"
+          value={Number.isNaN(spec.rounds) ? '' : spec.rounds}
+          min={1}
+          max={MAX_ROUNDS}
+          onChange={(e) => update({ rounds: parseNumber(e.target.value) })}
+          disabled={disabled}
+          className={numberInputClass}
+          aria-label="Number of rounds"
+        />
+      </Field>
+
+      <Field label="Difficulty curve">
+        <div className="flex flex-wrap gap-1.5">
+          {DIFFICULTY_CURVES.map(curve => (
+            <button
+              key={curve}
+              type="button"
+              onClick={() => update({ difficulty: curve })}
+              disabled={disabled}
+              aria-pressed={spec.difficulty === curve}
+              title={DIFFICULTY_LABELS[curve].description}
+              className={chipClass(spec.difficulty === curve)}
+            >
+              {DIFFICULTY_LABELS[curve].label}
+            </button>
+          ))}
+        </div>
+        <p className="text-[11px] text-zinc-600">{DIFFICULTY_LABELS[spec.difficulty].description}</p>
+      </Field>
+
+      <Field label="Game mechanic">
+        <div className="flex flex-wrap gap-1.5">
+          {GAME_MECHANICS.map(mechanic => (
+            <button
+              key={mechanic}
+              type="button"
+              onClick={() => update({ mechanic })}
+              disabled={disabled}
+              aria-pressed={spec.mechanic === mechanic}
+              title={MECHANIC_LABELS[mechanic].description}
+              className={chipClass(spec.mechanic === mechanic)}
+            >
+              {MECHANIC_LABELS[mechanic].label}
+            </button>
+          ))}
+        </div>
+        <p className="text-[11px] text-zinc-600">{MECHANIC_LABELS[spec.mechanic].description}</p>
+      </Field>
+
+      {problems.length > 0 && (
+        <ul className="md:col-span-2 text-xs text-amber-400/90 space-y-0.5">
+          {problems.map(problem => <li key={problem}>{problem}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+interface MathGamePanelProps {
+  spec: MathGameSpec; // The spec the game was last built from
+  disabled: boolean;
+  onRegenerate: (spec: MathGameSpec) => void;
+  onClose: () => void;
+}
+
+// Edits a generated game's spec and rebuilds the game from it as a new version
+export const MathGamePanel: React.FC<MathGamePanelProps> = ({ spec, disabled, onRegenerate, onClose }) => {
+  const [draft, setDraft] = useState(spec);
+  const canRegenerate = !disabled && mathGameProblems(draft).length === 0;
+
+  return (
+    <div className="absolute top-3 right-3 z-20 w-[40rem] max-w-[calc(100%-1.5rem)] max-h-[calc(100%-1.5rem)] flex flex-col bg-zinc-950/95 backdrop-blur-md border border-zinc-800 rounded-lg shadow-2xl animate-in fade-in slide-in-from-top-1 duration-150">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-zinc-800 shrink-0">
+        <div className="flex items-center space-x-2 min-w-0">
+          <span className="text-[11px] font-mono uppercase tracking-wider text-zinc-400">Game Settings</span>
+          <span className="text-[10px] font-mono text-zinc-600 truncate">{describeMathGame(spec)}</span>
+        </div>
+        <button onClick={onClose} className="p-1 text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800 rounded transition-colors" title="Close">
+          <XMarkIcon className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      <div className="overflow-y-auto p-4">
+        <MathGameForm spec={draft} onChange={setDraft} disabled={disabled} />
+      </div>
+
+      <div className="flex items-center justify-between px-3 py-2 border-t border-zinc-800 shrink-0">
+        <p className="text-[11px] text-zinc-500">The game is rebuilt from scratch; earlier versions stay in the timeline.</p>
+        <button
+          onClick={() => onRegenerate(draft)}
+          disabled={!canRegenerate}
+          className="flex items-center space-x-1 px-2.5 py-1 rounded-md text-[11px] font-medium text-white bg-blue-600 hover:bg-blue-500 disabled:opacity-40 disabled:pointer-events-none transition-colors shrink-0"
+        >
+          <ArrowPathIcon className="w-3.5 h-3.5" />
+          <span>Regenerate</span>
+        </button>
+      </div>
+    </div>
+  );
+};
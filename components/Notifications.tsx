@@ -0,0 +1,82 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect } from 'react';
+import { ExclamationTriangleIcon, CheckCircleIcon, InformationCircleIcon, XMarkIcon, ArrowPathIcon } from '@heroicons/react/24/outline';
+
+export interface Notification {
+  id: string;
+  tone: 'error' | 'success' | 'info';
+  title: string;
+  message: string;
+  action?: { label: string; onClick: () => void };
+}
+
+interface NotificationsProps {
+  notifications: Notification[];
+  onDismiss: (id: string) => void;
+}
+
+// Toasts with an action stay until handled; the rest fade out on their own
+const AUTO_DISMISS_MS = 8000;
+
+const TONE_STYLES = {
+  error: { icon: ExclamationTriangleIcon, iconClass: 'text-red-400', border: 'border-red-500/30' },
+  success: { icon: CheckCircleIcon, iconClass: 'text-green-400', border: 'border-green-500/30' },
+  info: { icon: InformationCircleIcon, iconClass: 'text-blue-400', border: 'border-zinc-700' },
+};
+
+const Toast = ({ notification, onDismiss }: { notification: Notification, onDismiss: (id: string) => void }) => {
+  const { icon: Icon, iconClass, border } = TONE_STYLES[notification.tone];
+
+  useEffect(() => {
+    if (notification.action) return;
+    const timeout = setTimeout(() => onDismiss(notification.id), AUTO_DISMISS_MS);
+    return () => clearTimeout(timeout);
+  }, [notification, onDismiss]);
+
+  return (
+    <div
+      role={notification.tone === 'error' ? 'alert' : 'status'}
+      className={`pointer-events-auto w-full bg-zinc-900/95 backdrop-blur-md border ${border} rounded-lg shadow-2xl p-3 flex items-start space-x-3 animate-in fade-in slide-in-from-bottom-2 duration-300`}
+    >
+      <Icon className={`w-5 h-5 shrink-0 mt-0.5 ${iconClass}`} />
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-medium text-zinc-100">{notification.title}</p>
+        <p className="text-xs text-zinc-400 mt-0.5 leading-relaxed">{notification.message}</p>
+        {notification.action && (
+          <button
+            onClick={() => {
+              onDismiss(notification.id);
+              notification.action?.onClick();
+            }}
+            className="mt-2 flex items-center space-x-1.5 text-xs font-medium text-blue-400 hover:text-blue-300 transition-colors"
+          >
+            <ArrowPathIcon className="w-3.5 h-3.5" />
+            <span>{notification.action.label}</span>
+          </button>
+        )}
+      </div>
+      <button
+        onClick={() => onDismiss(notification.id)}
+        className="p-0.5 text-zinc-500 hover:text-zinc-300 transition-colors"
+        title="Dismiss"
+      >
+        <XMarkIcon className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
+
+export const Notifications: React.FC<NotificationsProps> = ({ notifications, onDismiss }) => {
+  if (notifications.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-16 right-4 z-[70] w-[calc(100%-2rem)] max-w-sm flex flex-col space-y-2 pointer-events-none">
+      {notifications.map(notification => (
+        <Toast key={notification.id} notification={notification} onDismiss={onDismiss} />
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,356 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { DocumentIcon, ChevronLeftIcon, ChevronRightIcon, MagnifyingGlassMinusIcon, MagnifyingGlassPlusIcon, ArrowsPointingOutIcon, Squares2X2Icon } from '@heroicons/react/24/outline';
+
+// Add type definition for the global pdfjsLib
+declare global {
+  interface Window {
+    pdfjsLib: any;
+  }
+}
+
+interface PageSize {
+  width: number;
+  height: number;
+}
+
+const MIN_SCALE = 0.25;
+const MAX_SCALE = 4;
+const ZOOM_STEP = 1.25;
+const THUMBNAIL_WIDTH = 72;
+const PAGE_GAP = 16; // Matches space-y-4 between pages
+// Start rendering pages shortly before they scroll into view
+const LAZY_MARGIN = '400px';
+
+const clampScale = (scale: number) => Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+
+interface PdfPageProps {
+  pdf: any;
+  pageNumber: number;
+  scale: number;
+  fallbackSize: PageSize; // Size of page 1 at scale 1, used until this page is measured
+  rootRef: React.RefObject<HTMLElement | null>;
+}
+
+// A single page, rendered only once it nears the viewport. Changing the scale or the
+// document cancels the in-flight render before starting a new one.
+const PdfPage = ({ pdf, pageNumber, scale, fallbackSize, rootRef }: PdfPageProps) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [isNear, setIsNear] = useState(false);
+  const [size, setSize] = useState<PageSize | null>(null);
+  const [rendered, setRendered] = useState(false);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+    const observer = new IntersectionObserver(([entry]) => {
+      if (entry.isIntersecting) {
+        setIsNear(true);
+        observer.disconnect();
+      }
+    }, { root: rootRef.current, rootMargin: LAZY_MARGIN });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [rootRef]);
+
+  useEffect(() => {
+    if (!isNear) return;
+    let isCancelled = false;
+    let renderTask: any = null;
+    setRendered(false);
+
+    const renderPage = async () => {
+      try {
+        const page = await pdf.getPage(pageNumber);
+        if (isCancelled) return;
+
+        const base = page.getViewport({ scale: 1 });
+        setSize({ width: base.width, height: base.height });
+
+        const canvas = canvasRef.current;
+        const context = canvas?.getContext('2d');
+        if (!canvas || !context) return;
+
+        // Render at device resolution so text stays crisp on high DPI screens
+        const ratio = window.devicePixelRatio || 1;
+        const viewport = page.getViewport({ scale });
+        canvas.width = Math.floor(viewport.width * ratio);
+        canvas.height = Math.floor(viewport.height * ratio);
+
+        renderTask = page.render({
+          canvasContext: context,
+          viewport,
+          transform: ratio !== 1 ? [ratio, 0, 0, ratio, 0, 0] : undefined,
+        });
+        await renderTask.promise;
+        if (!isCancelled) setRendered(true);
+      } catch (err: any) {
+        if (isCancelled || err?.name === 'RenderingCancelledException') return;
+        console.error(`Error rendering PDF page ${pageNumber}:`, err);
+        setFailed(true);
+      }
+    };
+
+    renderPage();
+
+    return () => {
+      isCancelled = true;
+      renderTask?.cancel();
+    };
+  }, [pdf, pageNumber, scale, isNear]);
+
+  const { width, height } = size ?? fallbackSize;
+
+  return (
+    <div
+      ref={containerRef}
+      className="relative bg-white shadow-xl border border-zinc-800/50 rounded overflow-hidden"
+      style={{ width: width * scale, height: height * scale }}
+    >
+      {!rendered && !failed && (
+        <div className="absolute inset-0 flex items-center justify-center bg-zinc-100">
+          <div className="w-5 h-5 border-2 border-blue-500/30 border-t-blue-500 rounded-full animate-spin"></div>
+        </div>
+      )}
+      {failed && (
+        <div className="absolute inset-0 flex items-center justify-center bg-zinc-100 text-[10px] text-red-500">
+          Page {pageNumber} failed to render
+        </div>
+      )}
+      <canvas ref={canvasRef} className="w-full h-full" />
+    </div>
+  );
+};
+
+export const PdfViewer = ({ dataUrl }: { dataUrl: string }) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const thumbnailsRef = useRef<HTMLDivElement>(null);
+  const pageRefs = useRef<(HTMLDivElement | null)[]>([]);
+  const [pdf, setPdf] = useState<any>(null);
+  const [pageCount, setPageCount] = useState(0);
+  const [firstPageSize, setFirstPageSize] = useState<PageSize | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [pageInput, setPageInput] = useState('1');
+  const [zoom, setZoom] = useState<number | 'fit-width'>('fit-width');
+  const [containerWidth, setContainerWidth] = useState(0);
+  const [showThumbnails, setShowThumbnails] = useState(true);
+
+  // Load the document; destroying the loading task also cancels pending page renders
+  useEffect(() => {
+    setPdf(null);
+    setError(null);
+    setCurrentPage(1);
+    setPageInput('1');
+
+    if (!window.pdfjsLib) {
+      setError("PDF library not initialized");
+      return;
+    }
+
+    let isCancelled = false;
+    const loadingTask = window.pdfjsLib.getDocument(dataUrl);
+
+    const loadPdf = async () => {
+      try {
+        const doc = await loadingTask.promise;
+        const firstPage = await doc.getPage(1);
+        if (isCancelled) return;
+        const viewport = firstPage.getViewport({ scale: 1 });
+        setFirstPageSize({ width: viewport.width, height: viewport.height });
+        setPageCount(doc.numPages);
+        setPdf(doc);
+      } catch (err) {
+        if (isCancelled) return;
+        console.error("Error loading PDF:", err);
+        setError("Could not render PDF preview.");
+      }
+    };
+
+    loadPdf();
+
+    return () => {
+      isCancelled = true;
+      loadingTask.destroy();
+    };
+  }, [dataUrl]);
+
+  // Track the available width for fit-to-width
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(([entry]) => setContainerWidth(entry.contentRect.width));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [pdf]);
+
+  // contentRect already excludes the padding around the pages
+  const fitWidthScale = firstPageSize && containerWidth > 0
+    ? clampScale(containerWidth / firstPageSize.width)
+    : 1;
+  // Rounded so small resizes don't trigger a re-render of every visible page
+  const scale = Math.round((zoom === 'fit-width' ? fitWidthScale : zoom) * 100) / 100;
+
+  const goToPage = (pageNumber: number) => {
+    const target = Math.min(pageCount, Math.max(1, pageNumber));
+    setCurrentPage(target);
+    setPageInput(String(target));
+    const element = pageRefs.current[target - 1];
+    if (element) scrollRef.current?.scrollTo({ top: element.offsetTop - PAGE_GAP });
+  };
+
+  // The current page is the last one whose top has passed the upper third of the view
+  const handleScroll = () => {
+    const container = scrollRef.current;
+    if (!container) return;
+    const marker = container.scrollTop + container.clientHeight / 3;
+    let page = 1;
+    pageRefs.current.forEach((element, i) => {
+      if (element && element.offsetTop - PAGE_GAP <= marker) page = i + 1;
+    });
+    if (page !== currentPage) {
+      setCurrentPage(page);
+      setPageInput(String(page));
+    }
+  };
+
+  // Keep the highlighted thumbnail in view while scrolling the pages. Scrolls only the
+  // strip itself; scrollIntoView would also move the surrounding overlay.
+  useEffect(() => {
+    const strip = thumbnailsRef.current;
+    const thumbnail = strip?.children[currentPage - 1] as HTMLElement | undefined;
+    if (!strip || !thumbnail) return;
+    if (thumbnail.offsetTop < strip.scrollTop) {
+      strip.scrollTop = thumbnail.offsetTop - PAGE_GAP / 2;
+    } else if (thumbnail.offsetTop + thumbnail.offsetHeight > strip.scrollTop + strip.clientHeight) {
+      strip.scrollTop = thumbnail.offsetTop + thumbnail.offsetHeight - strip.clientHeight + PAGE_GAP / 2;
+    }
+  }, [currentPage]);
+
+  const zoomBy = (factor: number) => setZoom(clampScale(scale * factor));
+
+  if (error) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full text-zinc-500 p-6 text-center">
+        <DocumentIcon className="w-12 h-12 mb-3 opacity-50 text-red-400" />
+        <p className="text-sm mb-2 text-red-400/80">{error}</p>
+      </div>
+    );
+  }
+
+  if (!pdf || !firstPageSize) {
+    return (
+      <div className="w-full h-full flex items-center justify-center bg-zinc-900/50">
+        <div className="w-6 h-6 border-2 border-blue-500/30 border-t-blue-500 rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  const buttonClass = "p-1 text-zinc-400 hover:text-white hover:bg-zinc-800 rounded transition-colors disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-zinc-400";
+
+  return (
+    <div className="w-full h-full flex flex-col bg-zinc-900/50">
+      {/* Toolbar */}
+      <div className="flex items-center justify-between px-3 py-1.5 border-b border-zinc-800 bg-[#0c0c0e] shrink-0">
+        <div className="flex items-center space-x-1">
+          {pageCount > 1 && (
+            <button
+              onClick={() => setShowThumbnails(!showThumbnails)}
+              className={`${buttonClass} ${showThumbnails ? 'text-zinc-100 bg-zinc-800' : ''}`}
+              title="Page thumbnails"
+            >
+              <Squares2X2Icon className="w-4 h-4" />
+            </button>
+          )}
+          <button onClick={() => goToPage(currentPage - 1)} disabled={currentPage <= 1} className={buttonClass} title="Previous page">
+            <ChevronLeftIcon className="w-4 h-4" />
+          </button>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              const page = parseInt(pageInput, 10);
+              if (Number.isNaN(page)) setPageInput(String(currentPage));
+              else goToPage(page);
+            }}
+            className="flex items-center space-x-1 text-[11px] font-mono text-zinc-500"
+          >
+            <input
+              value={pageInput}
+              onChange={(e) => setPageInput(e.target.value)}
+              onBlur={() => setPageInput(String(currentPage))}
+              className="w-8 bg-zinc-900 border border-zinc-800 focus:border-blue-500/50 rounded px-1 py-0.5 text-center text-zinc-300 focus:outline-none"
+              aria-label="Page number"
+            />
+            <span>/ {pageCount}</span>
+          </form>
+          <button onClick={() => goToPage(currentPage + 1)} disabled={currentPage >= pageCount} className={buttonClass} title="Next page">
+            <ChevronRightIcon className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex items-center space-x-1">
+          <button onClick={() => zoomBy(1 / ZOOM_STEP)} disabled={scale <= MIN_SCALE} className={buttonClass} title="Zoom out">
+            <MagnifyingGlassMinusIcon className="w-4 h-4" />
+          </button>
+          <span className="w-10 text-center text-[11px] font-mono text-zinc-500">{Math.round(scale * 100)}%</span>
+          <button onClick={() => zoomBy(ZOOM_STEP)} disabled={scale >= MAX_SCALE} className={buttonClass} title="Zoom in">
+            <MagnifyingGlassPlusIcon className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => setZoom('fit-width')}
+            className={`${buttonClass} ${zoom === 'fit-width' ? 'text-zinc-100 bg-zinc-800' : ''}`}
+            title="Fit to width"
+          >
+            <ArrowsPointingOutIcon className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 min-h-0 flex">
+        {/* Thumbnail strip */}
+        {showThumbnails && pageCount > 1 && (
+          <div ref={thumbnailsRef} className="relative w-24 shrink-0 overflow-y-auto border-r border-zinc-800 bg-[#0c0c0e] p-2 space-y-2">
+            {Array.from({ length: pageCount }, (_, i) => (
+              <button
+                key={i}
+                onClick={() => goToPage(i + 1)}
+                className={`block mx-auto p-1 rounded transition-colors ${currentPage === i + 1 ? 'bg-blue-500/20 ring-1 ring-blue-500/60' : 'hover:bg-zinc-800'}`}
+              >
+                <PdfPage
+                  pdf={pdf}
+                  pageNumber={i + 1}
+                  scale={THUMBNAIL_WIDTH / firstPageSize.width}
+                  fallbackSize={firstPageSize}
+                  rootRef={thumbnailsRef}
+                />
+                <span className="block mt-1 text-[10px] font-mono text-zinc-500">{i + 1}</span>
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* Pages */}
+        <div ref={scrollRef} onScroll={handleScroll} className="relative flex-1 overflow-auto p-4">
+          <div className="flex flex-col items-center space-y-4 w-max min-w-full">
+            {Array.from({ length: pageCount }, (_, i) => (
+              <div key={i} ref={el => { pageRefs.current[i] = el; }}>
+                <PdfPage
+                  pdf={pdf}
+                  pageNumber={i + 1}
+                  scale={scale}
+                  fallbackSize={firstPageSize}
+                  rootRef={scrollRef}
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,176 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useState } from 'react';
+import { ArrowPathIcon, XMarkIcon, ClipboardDocumentListIcon, SparklesIcon } from '@heroicons/react/24/outline';
+import { AppPlan, isPlanComplete } from '../services/plan';
+
+interface PlanEditorProps {
+  plan: AppPlan;
+  onChange: (plan: AppPlan) => void;
+  disabled?: boolean;
+}
+
+const Field = ({ label, hint, className = '', children }: { label: string, hint?: string, className?: string, children: React.ReactNode }) => (
+  <label className={`block space-y-1.5 ${className}`}>
+    <span className="block text-[10px] font-mono uppercase tracking-wider text-zinc-500">
+      {label}
+      {hint && <span className="ml-2 normal-case tracking-normal text-zinc-600">{hint}</span>}
+    </span>
+    {children}
+  </label>
+);
+
+const textareaClass = 'w-full bg-zinc-950 border border-zinc-800 focus:border-blue-500/50 rounded px-2.5 py-2 text-xs text-zinc-200 leading-relaxed focus:outline-none resize-y disabled:opacity-50';
+
+const toLines = (text: string) => text.split('\n').map(line => line.trim()).filter(Boolean);
+
+// One item per line. The raw text is kept locally so blank lines survive while typing.
+const ListField = ({ items, onChange, disabled, rows }: { items: string[], onChange: (items: string[]) => void, disabled: boolean, rows: number }) => {
+  const [text, setText] = useState(items.join('\n'));
+
+  // Picks up a list replaced from outside, such as a new plan
+  useEffect(() => {
+    if (toLines(text).join('\n') !== items.join('\n')) setText(items.join('\n'));
+  }, [items]);
+
+  return (
+    <textarea
+      value={text}
+      onChange={(e) => {
+        setText(e.target.value);
+        onChange(toLines(e.target.value));
+      }}
+      rows={rows}
+      disabled={disabled}
+      className={textareaClass}
+    />
+  );
+};
+
+export const PlanEditor: React.FC<PlanEditorProps> = ({ plan, onChange, disabled = false }) => {
+  const update = (changes: Partial<AppPlan>) => onChange({ ...plan, ...changes });
+
+  return (
+    <div className="w-full grid grid-cols-1 md:grid-cols-2 gap-4 text-left">
+      <Field label="What the model sees" hint="correct anything it misread" className="md:col-span-2">
+        <textarea value={plan.observations} onChange={(e) => update({ observations: e.target.value })} rows={3} disabled={disabled} className={textareaClass} />
+      </Field>
+
+      <Field label="Concept" className="md:col-span-2">
+        <textarea value={plan.concept} onChange={(e) => update({ concept: e.target.value })} rows={2} disabled={disabled} className={textareaClass} />
+      </Field>
+
+      <Field label="Features" hint="one per line">
+        <ListField items={plan.features} onChange={features => update({ features })} disabled={disabled} rows={6} />
+      </Field>
+
+      <Field label="Controls" hint="one per line">
+        <ListField items={plan.controls} onChange={controls => update({ controls })} disabled={disabled} rows={6} />
+      </Field>
+
+      <Field label="Layout" className="md:col-span-2">
+        <textarea value={plan.layout} onChange={(e) => update({ layout: e.target.value })} rows={2} disabled={disabled} className={textareaClass} />
+      </Field>
+
+      {!isPlanComplete(plan) && (
+        <p className="md:col-span-2 text-xs text-amber-400/90">The plan needs a concept and at least one feature.</p>
+      )}
+    </div>
+  );
+};
+
+interface PlanReviewProps {
+  plan: AppPlan;
+  onChange: (plan: AppPlan) => void;
+  onBuild: () => void;
+  onReplan: () => void;
+  onDiscard: () => void;
+}
+
+// The plan-then-build checkpoint: nothing is generated until the user approves the plan
+export const PlanReview: React.FC<PlanReviewProps> = ({ plan, onChange, onBuild, onReplan, onDiscard }) => (
+  <div className="w-full max-w-4xl mx-auto bg-zinc-900/30 backdrop-blur-sm rounded-xl border border-zinc-800">
+    <div className="flex items-center space-x-3 px-4 sm:px-6 py-4 border-b border-zinc-800">
+      <div className="p-2 bg-blue-500/10 rounded-lg">
+        <ClipboardDocumentListIcon className="w-5 h-5 text-blue-400" />
+      </div>
+      <div className="min-w-0 text-left">
+        <h2 className="text-sm font-medium text-white">Review the plan</h2>
+        <p className="text-[11px] text-zinc-500">Nothing has been built yet. Fix anything the model got wrong, then build the app from this plan.</p>
+      </div>
+    </div>
+
+    <div className="p-4 sm:p-6">
+      <PlanEditor plan={plan} onChange={onChange} />
+    </div>
+
+    <div className="flex items-center justify-between px-4 sm:px-6 py-3 border-t border-zinc-800">
+      <button onClick={onDiscard} className="text-xs font-medium text-zinc-500 hover:text-zinc-300 transition-colors">
+        Start over
+      </button>
+      <div className="flex items-center space-x-2">
+        <button
+          onClick={onReplan}
+          className="flex items-center space-x-1.5 px-3 py-1.5 rounded-md text-xs font-medium text-zinc-400 hover:text-zinc-200 hover:bg-zinc-800 transition-colors"
+          title="Discard this plan and ask for a new one"
+        >
+          <ArrowPathIcon className="w-3.5 h-3.5" />
+          <span>Re-plan</span>
+        </button>
+        <button
+          onClick={onBuild}
+          disabled={!isPlanComplete(plan)}
+          className="flex items-center space-x-1.5 px-3 py-1.5 rounded-md text-xs font-medium text-white bg-blue-600 hover:bg-blue-500 disabled:opacity-40 disabled:pointer-events-none transition-colors"
+        >
+          <SparklesIcon className="w-3.5 h-3.5" />
+          <span>Build app</span>
+        </button>
+      </div>
+    </div>
+  </div>
+);
+
+interface PlanPanelProps {
+  plan: AppPlan; // The plan the app was last built from
+  disabled: boolean;
+  onRebuild: (plan: AppPlan) => void;
+  onClose: () => void;
+}
+
+// Edits a creation's plan and rebuilds the app from it as a new version
+export const PlanPanel: React.FC<PlanPanelProps> = ({ plan, disabled, onRebuild, onClose }) => {
+  const [draft, setDraft] = useState(plan);
+  const canRebuild = !disabled && isPlanComplete(draft);
+
+  return (
+    <div className="absolute top-3 right-3 z-20 w-[40rem] max-w-[calc(100%-1.5rem)] max-h-[calc(100%-1.5rem)] flex flex-col bg-zinc-950/95 backdrop-blur-md border border-zinc-800 rounded-lg shadow-2xl animate-in fade-in slide-in-from-top-1 duration-150">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-zinc-800 shrink-0">
+        <div className="flex items-center space-x-2 min-w-0">
+          <span className="text-[11px] font-mono uppercase tracking-wider text-zinc-400">Plan</span>
+          <span className="text-[10px] text-zinc-600 truncate">{plan.concept}</span>
+        </div>
+        <button onClick={onClose} className="p-1 text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800 rounded transition-colors" title="Close">
+          <XMarkIcon className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      <div className="overflow-y-auto p-4">
+        <PlanEditor plan={draft} onChange={setDraft} disabled={disabled} />
+      </div>
+
+      <div className="flex items-center justify-between px-3 py-2 border-t border-zinc-800 shrink-0">
+        <p className="text-[11px] text-zinc-500">The app is rebuilt from scratch; earlier versions stay in the timeline.</p>
+        <button
+          onClick={() => onRebuild(draft)}
+          disabled={!canRebuild}
+          className="flex items-center space-x-1 px-2.5 py-1 rounded-md text-[11px] font-medium text-white bg-blue-600 hover:bg-blue-500 disabled:opacity-40 disabled:pointer-events-none transition-colors shrink-0"
+        >
+          <ArrowPathIcon className="w-3.5 h-3.5" />
+          <span>Rebuild from plan</span>
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,97 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { EyeIcon, ArrowUturnLeftIcon, ArrowsRightLeftIcon, DocumentMagnifyingGlassIcon } from '@heroicons/react/24/outline';
+import { Revision } from './CreationHistory';
+
+interface RevisionTimelineProps {
+  revisions: Revision[];
+  previewId: string | null;
+  compareIds: string[];
+  onPreview: (revisionId: string | null) => void;
+  onRevert: (revisionId: string) => void;
+  canRevert: boolean; // False while a refinement is running, since its result would replace the revert
+  onToggleCompare: (revisionId: string) => void;
+  onShowChanges: (revisionId: string) => void;
+}
+
+export const RevisionTimeline: React.FC<RevisionTimelineProps> = ({ revisions, previewId, compareIds, onPreview, onRevert, canRevert, onToggleCompare, onShowChanges }) => {
+  const latestId = revisions[revisions.length - 1]?.id;
+
+  return (
+    <div className="w-72 h-full shrink-0 border-l border-zinc-800 bg-[#0c0c0e] flex flex-col">
+      <div className="px-4 py-3 border-b border-zinc-800 flex items-center justify-between">
+        <h2 className="text-xs font-bold uppercase tracking-wider text-zinc-500">Versions</h2>
+        <span className="text-[10px] font-mono text-zinc-600">
+          {compareIds.length > 0 ? `${compareIds.length}/2 selected` : `${revisions.length} total`}
+        </span>
+      </div>
+
+      <ol className="flex-1 overflow-y-auto p-2 space-y-1">
+        {/* Newest first */}
+        {[...revisions].reverse().map((revision) => {
+          const version = revisions.indexOf(revision) + 1;
+          const isLatest = revision.id === latestId;
+          const isPreviewed = previewId ? revision.id === previewId : isLatest;
+          const isCompared = compareIds.includes(revision.id);
+
+          return (
+            <li
+              key={revision.id}
+              className={`group rounded-md border px-3 py-2 transition-colors ${isPreviewed ? 'border-blue-500/40 bg-blue-500/5' : 'border-transparent hover:bg-zinc-900'}`}
+            >
+              <div className="flex items-center justify-between">
+                <span className="text-[11px] font-mono text-zinc-300">
+                  v{version}{isLatest && <span className="ml-1.5 text-blue-400">current</span>}
+                </span>
+                <span className="text-[10px] font-mono text-zinc-600">
+                  {revision.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                </span>
+              </div>
+              <p className="mt-1 text-xs text-zinc-500 line-clamp-2">
+                {revision.instruction || 'Initial generation'}
+              </p>
+              <div className="mt-2 flex items-center space-x-1">
+                <button
+                  onClick={() => onPreview(isLatest ? null : revision.id)}
+                  className={`p-1 rounded transition-colors ${isPreviewed ? 'text-blue-400' : 'text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800'}`}
+                  title="Preview this version"
+                >
+                  <EyeIcon className="w-3.5 h-3.5" />
+                </button>
+                <button
+                  onClick={() => onToggleCompare(revision.id)}
+                  className={`p-1 rounded transition-colors ${isCompared ? 'text-purple-400 bg-purple-500/10' : 'text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800'}`}
+                  title="Select for comparison"
+                >
+                  <ArrowsRightLeftIcon className="w-3.5 h-3.5" />
+                </button>
+                {version > 1 && (
+                  <button
+                    onClick={() => onShowChanges(revision.id)}
+                    className="p-1 rounded text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800 transition-colors"
+                    title="Show what changed in this version"
+                  >
+                    <DocumentMagnifyingGlassIcon className="w-3.5 h-3.5" />
+                  </button>
+                )}
+                {!isLatest && (
+                  <button
+                    onClick={() => onRevert(revision.id)}
+                    disabled={!canRevert}
+                    className="p-1 rounded text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800 transition-colors disabled:opacity-30 disabled:pointer-events-none"
+                    title="Revert to this version"
+                  >
+                    <ArrowUturnLeftIcon className="w-3.5 h-3.5" />
+                  </button>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
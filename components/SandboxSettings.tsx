@@ -0,0 +1,67 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { LockClosedIcon, LockOpenIcon } from '@heroicons/react/24/outline';
+import { SandboxPermissions, DEFAULT_PERMISSIONS, PERMISSION_OPTIONS } from '../services/sandbox';
+
+interface SandboxSettingsProps {
+  permissions: SandboxPermissions;
+  onChange: (permissions: SandboxPermissions) => void;
+}
+
+// Header dropdown for granting a single creation more access than the defaults
+export const SandboxSettings: React.FC<SandboxSettingsProps> = ({ permissions, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const isRelaxed = PERMISSION_OPTIONS.some(({ key }) => permissions[key] && !DEFAULT_PERMISSIONS[key]);
+  const Icon = isRelaxed ? LockOpenIcon : LockClosedIcon;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`p-1.5 rounded-md transition-all ${isOpen ? 'bg-zinc-800 text-zinc-100' : isRelaxed ? 'text-yellow-400 hover:bg-zinc-800' : 'text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800'}`}
+        title="Sandbox permissions"
+      >
+        <Icon className="w-4 h-4" />
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-72 bg-zinc-900 border border-zinc-800 rounded-lg shadow-2xl z-50 animate-in fade-in slide-in-from-top-1 duration-150">
+          <div className="px-3 py-2 border-b border-zinc-800">
+            <span className="text-[11px] font-mono uppercase tracking-wider text-zinc-400">Sandbox</span>
+            <p className="text-[11px] text-zinc-500 mt-1 leading-relaxed">
+              This app never sees your history or other data on this site. Grant extra access only to apps you trust.
+            </p>
+          </div>
+          <ul className="py-1">
+            {PERMISSION_OPTIONS.map(option => (
+              <li key={option.key}>
+                <label className="flex items-center justify-between px-3 py-2 hover:bg-zinc-800/60 cursor-pointer">
+                  <span className="flex flex-col">
+                    <span className="text-sm text-zinc-200">{option.label}</span>
+                    <span className="text-[11px] text-zinc-500">{option.description}</span>
+                  </span>
+                  <input
+                    type="checkbox"
+                    checked={permissions[option.key]}
+                    onChange={(e) => onChange({ ...permissions, [option.key]: e.target.checked })}
+                    className="w-4 h-4 accent-blue-500"
+                  />
+                </label>
+              </li>
+            ))}
+          </ul>
+          {isRelaxed && (
+            <button
+              onClick={() => onChange(DEFAULT_PERMISSIONS)}
+              className="w-full px-3 py-2 border-t border-zinc-800 text-left text-xs text-blue-400 hover:text-blue-300"
+            >
+              Restore defaults
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,133 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useState } from 'react';
+import { CircleStackIcon, ExclamationTriangleIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { CreationSummary, formatBytes } from './CreationHistory';
+import { StorageUsage } from '../services/storage';
+
+interface StorageManagerProps {
+  isOpen: boolean;
+  quotaExceeded: boolean; // Opened because a save failed, rather than from the storage meter
+  history: CreationSummary[];
+  storageUsage: StorageUsage | null;
+  onEvict: (ids: string[]) => Promise<void>;
+  onClose: () => void;
+}
+
+// When opened for a failed save, pre-select the oldest quarter of the archive
+const DEFAULT_EVICTION_SHARE = 0.25;
+
+export const StorageManager: React.FC<StorageManagerProps> = ({ isOpen, quotaExceeded, history, storageUsage, onEvict, onClose }) => {
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isEvicting, setIsEvicting] = useState(false);
+
+  const oldestFirst = [...history].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+  useEffect(() => {
+    if (!isOpen) return;
+    if (quotaExceeded) {
+      const count = Math.max(1, Math.floor(oldestFirst.length * DEFAULT_EVICTION_SHARE));
+      setSelected(new Set(oldestFirst.slice(0, count).map(c => c.id)));
+    } else {
+      setSelected(new Set());
+    }
+  }, [isOpen, quotaExceeded]);
+
+  if (!isOpen) return null;
+
+  const selectedBytes = oldestFirst
+    .filter(c => selected.has(c.id))
+    .reduce((sum, c) => sum + c.sizeBytes, 0);
+
+  const toggle = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const handleEvict = async () => {
+    if (selected.size === 0) return;
+    setIsEvicting(true);
+    try {
+      await onEvict([...selected]);
+    } finally {
+      setIsEvicting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 animate-in fade-in">
+      <div className="w-full max-w-lg bg-[#121214] border border-zinc-800 rounded-xl shadow-2xl flex flex-col max-h-[80vh]">
+        <div className="px-5 py-4 border-b border-zinc-800 flex items-start justify-between">
+          <div className="flex items-start space-x-3">
+            <div className={`p-2 rounded-lg ${quotaExceeded ? 'bg-red-500/10' : 'bg-blue-500/10'}`}>
+              {quotaExceeded ? (
+                <ExclamationTriangleIcon className="w-5 h-5 text-red-400" />
+              ) : (
+                <CircleStackIcon className="w-5 h-5 text-blue-400" />
+              )}
+            </div>
+            <div>
+              <h2 className="text-sm font-medium text-white">{quotaExceeded ? 'Storage Full' : 'Manage Storage'}</h2>
+              <p className="text-xs text-zinc-500 mt-0.5">
+                {quotaExceeded
+                  ? 'Your latest creation could not be saved. Remove older creations to make room.'
+                  : storageUsage
+                    ? `Using ${formatBytes(storageUsage.usage)} of ${formatBytes(storageUsage.quota)}.`
+                    : 'Select creations to remove from this browser.'}
+              </p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-1 text-zinc-500 hover:text-zinc-300" title="Close">
+            <XMarkIcon className="w-4 h-4" />
+          </button>
+        </div>
+
+        <ul className="flex-1 overflow-y-auto p-2">
+          {oldestFirst.map(item => (
+            <li key={item.id}>
+              <label className="flex items-center space-x-3 px-3 py-2 rounded-md hover:bg-zinc-900 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={selected.has(item.id)}
+                  onChange={() => toggle(item.id)}
+                  className="accent-blue-500"
+                />
+                <span className="flex-1 text-sm text-zinc-300 truncate">{item.name}</span>
+                <span className="text-[10px] font-mono text-zinc-600">
+                  {item.timestamp.toLocaleDateString()}
+                </span>
+                <span className="w-16 text-right text-[10px] font-mono text-zinc-500">{formatBytes(item.sizeBytes)}</span>
+              </label>
+            </li>
+          ))}
+        </ul>
+
+        <div className="px-5 py-3 border-t border-zinc-800 flex items-center justify-between">
+          <span className="text-xs text-zinc-500 font-mono">
+            {selected.size} selected · {formatBytes(selectedBytes)}
+          </span>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={onClose}
+              className="px-3 py-1.5 text-xs text-zinc-400 hover:text-zinc-200 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleEvict}
+              disabled={selected.size === 0 || isEvicting}
+              className="px-3 py-1.5 text-xs font-bold bg-red-600 hover:bg-red-500 text-white rounded-md transition-colors disabled:opacity-50"
+            >
+              {isEvicting ? 'Removing...' : quotaExceeded ? 'Remove & Save' : 'Remove Selected'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
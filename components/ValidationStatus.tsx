@@ -0,0 +1,65 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { ShieldCheckIcon, ShieldExclamationIcon, WrenchIcon } from '@heroicons/react/24/outline';
+import { ValidationReport } from '../services/validator';
+
+interface ValidationStatusProps {
+  report: ValidationReport;
+}
+
+// Header button summarising the validator report, with the full list in a dropdown
+export const ValidationStatus: React.FC<ValidationStatusProps> = ({ report }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const open = report.issues.filter(issue => !issue.repaired);
+  const hasErrors = open.some(issue => issue.severity === 'error');
+  const Icon = open.length > 0 ? ShieldExclamationIcon : ShieldCheckIcon;
+  const tone = hasErrors ? 'text-red-400' : open.length > 0 ? 'text-yellow-400' : 'text-green-400/80';
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`p-1.5 rounded-md transition-all hover:bg-zinc-800 ${isOpen ? 'bg-zinc-800' : ''} ${tone}`}
+        title={open.length > 0 ? `${open.length} validation ${open.length === 1 ? 'issue' : 'issues'}` : 'Validation passed'}
+      >
+        <Icon className="w-4 h-4" />
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-80 bg-zinc-900 border border-zinc-800 rounded-lg shadow-2xl z-50 animate-in fade-in slide-in-from-top-1 duration-150">
+          <div className="px-3 py-2 border-b border-zinc-800 flex items-center justify-between">
+            <span className="text-[11px] font-mono uppercase tracking-wider text-zinc-400">Validation</span>
+            <span className="text-[10px] font-mono text-zinc-600">
+              {report.issues.length - open.length} repaired · {open.length} open
+            </span>
+          </div>
+          {report.issues.length === 0 ? (
+            <p className="px-3 py-4 text-xs text-zinc-500">No problems found in the generated html.</p>
+          ) : (
+            <ul className="max-h-72 overflow-y-auto divide-y divide-zinc-800/60">
+              {report.issues.map((issue, i) => (
+                <li key={i} className="px-3 py-2">
+                  <div className="flex items-start space-x-2">
+                    {issue.repaired ? (
+                      <WrenchIcon className="w-3.5 h-3.5 mt-0.5 shrink-0 text-zinc-500" />
+                    ) : (
+                      <ShieldExclamationIcon className={`w-3.5 h-3.5 mt-0.5 shrink-0 ${issue.severity === 'error' ? 'text-red-400' : 'text-yellow-400'}`} />
+                    )}
+                    <div className="min-w-0">
+                      <p className={`text-xs leading-relaxed ${issue.repaired ? 'text-zinc-500' : 'text-zinc-300'}`}>{issue.message}</p>
+                      {issue.url && (
+                        <p className="text-[10px] font-mono text-zinc-600 truncate" title={issue.url}>{issue.url}</p>
+                      )}
+                    </div>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,89 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useMemo, useRef } from 'react';
+import { PrinterIcon, ArrowDownTrayIcon, ArrowPathIcon, XMarkIcon, DocumentTextIcon } from '@heroicons/react/24/outline';
+import { injectCsp, sandboxAttribute } from '../services/sandbox';
+import { WORKSHEET_PERMISSIONS, injectPrintBridge, requestPrint } from '../services/worksheet';
+
+interface WorksheetPreviewProps {
+  html: string | null; // Null until a worksheet was created
+  isCreating: boolean;
+  status: string; // What the model is doing while creating
+  providerLabel: string;
+  onRegenerate: () => void;
+  onDownload: () => void;
+  onCancel: () => void;
+  onClose: () => void;
+}
+
+const toolbarButton = 'flex items-center space-x-1.5 px-2.5 py-1.5 rounded-md text-xs font-medium transition-colors disabled:opacity-40 disabled:pointer-events-none';
+
+export const WorksheetPreview: React.FC<WorksheetPreviewProps> = ({ html, isCreating, status, providerLabel, onRegenerate, onDownload, onCancel, onClose }) => {
+  const frameRef = useRef<HTMLIFrameElement>(null);
+  const srcDoc = useMemo(() => (html ? injectCsp(injectPrintBridge(html), WORKSHEET_PERMISSIONS) : undefined), [html]);
+  const canUse = !!html && !isCreating;
+
+  return (
+    <div className="w-full h-full flex flex-col bg-[#0c0c0e]">
+      <div className="flex items-center justify-between gap-4 px-4 py-3 border-b border-zinc-800 shrink-0">
+        <div className="flex items-center space-x-3 min-w-0">
+          <div className="p-2 bg-blue-500/10 rounded-lg">
+            <DocumentTextIcon className="w-5 h-5 text-blue-400" />
+          </div>
+          <div className="min-w-0">
+            <h2 className="text-sm font-medium text-white">Printable Worksheet</h2>
+            <p className="text-[11px] text-zinc-500 font-mono truncate">Problems and answer key by {providerLabel} · print or save as PDF</p>
+          </div>
+        </div>
+        <div className="flex items-center space-x-2 shrink-0">
+          <button onClick={onRegenerate} disabled={isCreating} className={`${toolbarButton} text-zinc-400 hover:text-zinc-200 hover:bg-zinc-800`}>
+            <ArrowPathIcon className="w-3.5 h-3.5" />
+            <span className="hidden sm:inline">Regenerate</span>
+          </button>
+          <button onClick={onDownload} disabled={!canUse} className={`${toolbarButton} text-zinc-400 hover:text-zinc-200 hover:bg-zinc-800`}>
+            <ArrowDownTrayIcon className="w-3.5 h-3.5" />
+            <span className="hidden sm:inline">HTML</span>
+          </button>
+          <button onClick={() => requestPrint(frameRef.current)} disabled={!canUse} className={`${toolbarButton} text-black bg-white hover:bg-zinc-200`}>
+            <PrinterIcon className="w-3.5 h-3.5" />
+            <span>Print / Save as PDF</span>
+          </button>
+          <button onClick={onClose} className="p-1.5 rounded-md text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800 transition-colors" title="Close">
+            <XMarkIcon className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="relative flex-1 min-h-0 bg-zinc-700">
+        {srcDoc && (
+          <iframe
+            ref={frameRef}
+            title="Worksheet Print Preview"
+            srcDoc={srcDoc}
+            className="w-full h-full bg-white"
+            sandbox={sandboxAttribute(WORKSHEET_PERMISSIONS)}
+          />
+        )}
+        {isCreating ? (
+          <div className="absolute inset-0 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+            <div className="p-4 bg-zinc-900 border border-zinc-800 rounded-xl shadow-2xl flex items-center space-x-3">
+              <div className="w-5 h-5 border-2 border-blue-500/30 border-t-blue-500 rounded-full animate-spin"></div>
+              <span className="text-sm font-mono text-zinc-200">{status}</span>
+              <button
+                onClick={onCancel}
+                className="ml-2 p-1.5 rounded-md text-zinc-500 hover:text-white hover:bg-zinc-800 transition-colors"
+                title="Cancel"
+              >
+                <XMarkIcon className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        ) : !html && (
+          <p className="absolute inset-0 flex items-center justify-center text-sm text-zinc-400">Worksheet unavailable.</p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,106 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { BRIDGE_SOURCE, injectIntoHead } from './previewBridge';
+
+// Sandboxed previews have an opaque origin, so the real localStorage throws. Instead each
+// creation gets its own key-value store: the preview receives a snapshot of it through a
+// shimmed localStorage, and every write is posted back to the host to be persisted.
+// sessionStorage is shimmed too, but only lives as long as the loaded document.
+
+export type AppData = Record<string, string>;
+
+export type StorageMessage =
+  | { source: typeof BRIDGE_SOURCE; type: 'storage-set'; key: string; value: string }
+  | { source: typeof BRIDGE_SOURCE; type: 'storage-remove'; key: string }
+  | { source: typeof BRIDGE_SOURCE; type: 'storage-clear' };
+
+// Kept on one line like the error bridge so line numbers in the app stay unchanged.
+// __DATA__ and __PERSIST__ are replaced per document.
+const SHIM_SCRIPT = `
+(function () {
+  var post = function (message) {
+    message.source = '${BRIDGE_SOURCE}';
+    try { parent.postMessage(message, '*'); } catch (e) {}
+  };
+  var createStorage = function (data, persist) {
+    var has = function (key) { return Object.prototype.hasOwnProperty.call(data, key); };
+    var api = {
+      getItem: function (key) { key = String(key); return has(key) ? data[key] : null; },
+      setItem: function (key, value) {
+        key = String(key); value = String(value);
+        data[key] = value;
+        if (persist) post({ type: 'storage-set', key: key, value: value });
+      },
+      removeItem: function (key) {
+        key = String(key);
+        if (!has(key)) return;
+        delete data[key];
+        if (persist) post({ type: 'storage-remove', key: key });
+      },
+      clear: function () {
+        Object.keys(data).forEach(function (key) { delete data[key]; });
+        if (persist) post({ type: 'storage-clear' });
+      },
+      key: function (index) { var keys = Object.keys(data); return index in keys ? keys[index] : null; }
+    };
+    return new Proxy(api, {
+      get: function (target, prop) {
+        if (prop === 'length') return Object.keys(data).length;
+        if (typeof prop !== 'string' || prop in target) return target[prop];
+        return has(prop) ? data[prop] : undefined;
+      },
+      set: function (target, prop, value) { api.setItem(prop, value); return true; },
+      deleteProperty: function (target, prop) { api.removeItem(prop); return true; },
+      has: function (target, prop) { return prop in target || has(prop); },
+      ownKeys: function () { return Object.keys(data); },
+      getOwnPropertyDescriptor: function (target, prop) {
+        if (!has(prop)) return undefined;
+        return { value: data[prop], writable: true, enumerable: true, configurable: true };
+      }
+    });
+  };
+  var define = function (name, storage) {
+    try { Object.defineProperty(window, name, { value: storage, configurable: true }); } catch (e) {}
+  };
+  define('localStorage', createStorage(__DATA__, __PERSIST__));
+  define('sessionStorage', createStorage({}, false));
+})();
+`.replace(/\n\s*/g, '');
+
+// persist=false gives frames such as version comparisons a private copy whose writes go nowhere
+export function injectStorageShim(html: string, data: AppData, persist: boolean): string {
+  // Escape "<" so stored values can never close the script tag
+  const json = JSON.stringify(data).replace(/</g, '\\u003c');
+  const script = SHIM_SCRIPT.replace('__DATA__', () => json).replace('__PERSIST__', String(persist));
+  return injectIntoHead(html, `<script data-storage-shim>${script}</script>`);
+}
+
+export function isStorageMessage(data: unknown): data is StorageMessage {
+  const message = data as StorageMessage | null;
+  return message?.source === BRIDGE_SOURCE && typeof message.type === 'string' && message.type.startsWith('storage-');
+}
+
+export function applyStorageMessage(data: AppData, message: StorageMessage): AppData {
+  switch (message.type) {
+    case 'storage-set':
+      return { ...data, [message.key]: message.value };
+    case 'storage-remove': {
+      const { [message.key]: _removed, ...rest } = data;
+      return rest;
+    }
+    case 'storage-clear':
+      return {};
+  }
+}
+
+// Keep only string entries from untrusted input such as an imported artifact
+export function toAppData(value: unknown): AppData {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => typeof v === 'string')) as AppData;
+}
+
+// Approximate bytes, counting UTF-16 like browsers do for localStorage quotas
+export const appDataSize = (data: AppData) =>
+  Object.entries(data).reduce((sum, [key, value]) => sum + (key.length + value.length) * 2, 0);
@@ -0,0 +1,78 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Creation, CreationInput, Revision } from '../components/CreationHistory';
+import { ValidationReport } from './validator';
+import { toMathGameSpec } from './mathGame';
+import { toAppPlan } from './plan';
+
+export function createRevision(html: string, instruction?: string, validation?: ValidationReport): Revision {
+  return {
+    id: crypto.randomUUID(),
+    html,
+    instruction,
+    validation,
+    timestamp: new Date(),
+  };
+}
+
+// Creations saved before revisions existed only carry their latest html,
+// so treat that as the single (initial) revision.
+export function getRevisions(creation: Creation): Revision[] {
+  if (creation.revisions && creation.revisions.length > 0) {
+    return creation.revisions;
+  }
+  return [{
+    id: `${creation.id}-initial`,
+    html: creation.html,
+    timestamp: creation.timestamp,
+  }];
+}
+
+// Append a new revision and make it the current version of the creation. The thumbnail
+// showed the previous version, so it is dropped until the new one is captured.
+export function addRevision(creation: Creation, html: string, instruction: string, validation?: ValidationReport): Creation {
+  const revision = createRevision(html, instruction, validation);
+  return {
+    ...creation,
+    html,
+    validation,
+    thumbnail: undefined,
+    revisions: [...getRevisions(creation), revision],
+    timestamp: revision.timestamp,
+  };
+}
+
+// Reverting never discards history: the chosen version is re-appended as the newest revision
+export function revertToRevision(creation: Creation, revisionId: string): Creation {
+  const revisions = getRevisions(creation);
+  const index = revisions.findIndex(r => r.id === revisionId);
+  if (index === -1) return creation;
+  return addRevision(creation, revisions[index].html, `Reverted to v${index + 1}`, revisions[index].validation);
+}
+
+// Creations from before multi-file input kept a single data URL in `originalImage`
+function legacyInputs(raw: any): CreationInput[] | undefined {
+  if (typeof raw.originalImage !== 'string') return undefined;
+  const mimeType = raw.originalImage.match(/^data:([^;,]+)/)?.[1] ?? 'application/octet-stream';
+  return [{ name: raw.name || 'Input', mimeType, dataUrl: raw.originalImage }];
+}
+
+// Restore Date objects after a JSON round trip (localStorage, imports, examples). Sandbox
+// permissions are never taken from a file: extra access is only granted by the user, in this app.
+export function hydrateCreation(raw: any): Creation {
+  const { originalImage, ...rest } = raw;
+  return {
+    ...rest,
+    id: raw.id || crypto.randomUUID(),
+    inputs: Array.isArray(raw.inputs) ? raw.inputs : legacyInputs(raw),
+    mathGame: toMathGameSpec(raw.mathGame),
+    plan: toAppPlan(raw.plan),
+    permissions: undefined,
+    timestamp: new Date(raw.timestamp || Date.now()),
+    revisions: Array.isArray(raw.revisions)
+      ? raw.revisions.map((r: any) => ({ ...r, timestamp: new Date(r.timestamp) }))
+      : undefined,
+  };
+}
@@ -0,0 +1,145 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Line-level diff between two versions of a creation (Myers' algorithm), used to show
+// what a refinement actually changed.
+
+export type DiffLineType = 'same' | 'added' | 'removed';
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+  oldNumber?: number; // 1-based line in the earlier version; absent for added lines
+  newNumber?: number; // 1-based line in the later version; absent for removed lines
+}
+
+// One row of the side-by-side view; a missing side is drawn as an empty cell
+export interface DiffRow {
+  left?: DiffLine;
+  right?: DiffLine;
+}
+
+export interface DiffStats {
+  added: number;
+  removed: number;
+}
+
+// Past this many edits the versions are shown as fully replaced rather than spending
+// seconds (and memory) on the optimal diff of a complete rewrite
+const MAX_EDIT_DISTANCE = 3000;
+
+type Op = { type: DiffLineType; text: string };
+
+function myers(a: string[], b: string[]): Op[] | null {
+  const n = a.length;
+  const m = b.length;
+  const offset = n + m + 1;
+  const v = new Int32Array(2 * offset + 1);
+  // trace[d] holds v[-d..d] after step d, for walking the path back
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= Math.min(n + m, MAX_EDIT_DISTANCE); d++) {
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        trace.push(v.slice(offset - d, offset + d + 1));
+        return backtrack(a, b, trace);
+      }
+    }
+    trace.push(v.slice(offset - d, offset + d + 1));
+  }
+  return null;
+}
+
+function backtrack(a: string[], b: string[], trace: Int32Array[]): Op[] {
+  const ops: Op[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = trace.length - 1; d > 0; d--) {
+    const previous = trace[d - 1];
+    const at = (k: number) => previous[k + d - 1];
+    const k = x - y;
+    const previousK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const previousX = at(previousK);
+    const previousY = previousX - previousK;
+
+    while (x > previousX && y > previousY) {
+      ops.push({ type: 'same', text: a[--x] });
+      y--;
+    }
+    if (x === previousX) ops.push({ type: 'added', text: b[--y] });
+    else ops.push({ type: 'removed', text: a[--x] });
+  }
+  while (x > 0 && y > 0) {
+    ops.push({ type: 'same', text: a[--x] });
+    y--;
+  }
+  return ops.reverse();
+}
+
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // Refinements usually touch a small part, so strip the shared start and end first
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+
+  const middleA = a.slice(prefix, a.length - suffix);
+  const middleB = b.slice(prefix, b.length - suffix);
+  const middle = myers(middleA, middleB) ?? [
+    ...middleA.map(text => ({ type: 'removed' as const, text })),
+    ...middleB.map(text => ({ type: 'added' as const, text })),
+  ];
+
+  const ops: Op[] = [
+    ...a.slice(0, prefix).map(text => ({ type: 'same' as const, text })),
+    ...middle,
+    ...a.slice(a.length - suffix).map(text => ({ type: 'same' as const, text })),
+  ];
+
+  let oldNumber = 0;
+  let newNumber = 0;
+  return ops.map(op => ({
+    ...op,
+    oldNumber: op.type === 'added' ? undefined : ++oldNumber,
+    newNumber: op.type === 'removed' ? undefined : ++newNumber,
+  }));
+}
+
+export const diffStats = (lines: DiffLine[]): DiffStats => ({
+  added: lines.filter(line => line.type === 'added').length,
+  removed: lines.filter(line => line.type === 'removed').length,
+});
+
+// Pairs each run of removed lines with the added lines that follow it
+export function toSideBySide(lines: DiffLine[]): DiffRow[] {
+  const rows: DiffRow[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    if (lines[i].type === 'same') {
+      rows.push({ left: lines[i], right: lines[i] });
+      i++;
+      continue;
+    }
+    const removed: DiffLine[] = [];
+    const added: DiffLine[] = [];
+    while (i < lines.length && lines[i].type === 'removed') removed.push(lines[i++]);
+    while (i < lines.length && lines[i].type === 'added') added.push(lines[i++]);
+    for (let j = 0; j < Math.max(removed.length, added.length); j++) {
+      rows.push({ left: removed[j], right: added[j] });
+    }
+  }
+  return rows;
+}
@@ -0,0 +1,106 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export type AppErrorKind = 'auth' | 'quota' | 'safety' | 'network' | 'empty-response' | 'malformed-response' | 'invalid-input' | 'unknown';
+
+// Errors shown to the user. `title` and `message` are written for the notification UI,
+// and `retryable` says whether trying the same thing again can succeed.
+export class AppError extends Error {
+  readonly kind: AppErrorKind;
+  readonly title: string;
+  readonly retryable: boolean;
+
+  constructor(kind: AppErrorKind, title: string, message: string, retryable: boolean, cause?: unknown) {
+    super(message, { cause });
+    this.name = 'AppError';
+    this.kind = kind;
+    this.title = title;
+    this.retryable = retryable;
+  }
+}
+
+export class AuthError extends AppError {
+  constructor(cause?: unknown) {
+    super('auth', 'API key problem',
+      'The API key is missing or was rejected. Set GEMINI_API_KEY in .env.local and restart, or switch to the Offline Mock provider.',
+      false, cause);
+    this.name = 'AuthError';
+  }
+}
+
+export class QuotaError extends AppError {
+  constructor(cause?: unknown) {
+    super('quota', 'Rate limit reached',
+      'The model API is out of quota or rate limited. Wait a minute before retrying.',
+      true, cause);
+    this.name = 'QuotaError';
+  }
+}
+
+export class SafetyError extends AppError {
+  constructor(reason?: string, cause?: unknown) {
+    super('safety', 'Blocked by safety filters',
+      `The model declined this request${reason ? ` (${reason.toLowerCase().replace(/_/g, ' ')})` : ''}. Try a different input or rephrase your instructions.`,
+      false, cause);
+    this.name = 'SafetyError';
+  }
+}
+
+export class NetworkError extends AppError {
+  constructor(message = "Couldn't reach the model service. Check your connection and retry.", cause?: unknown) {
+    super('network', 'Connection problem', message, true, cause);
+    this.name = 'NetworkError';
+  }
+}
+
+export class TimeoutError extends NetworkError {
+  constructor(timeoutMs: number) {
+    super(`The model didn't finish within ${Math.round(timeoutMs / 1000)}s. Retry, or simplify the request.`);
+    this.name = 'TimeoutError';
+  }
+}
+
+export class EmptyResponseError extends AppError {
+  constructor() {
+    super('empty-response', 'Empty response',
+      'The model returned nothing. Retrying usually helps.',
+      true);
+    this.name = 'EmptyResponseError';
+  }
+}
+
+export class MalformedResponseError extends AppError {
+  constructor(cause?: unknown) {
+    super('malformed-response', 'Unexpected response',
+      "The model's answer wasn't in the expected format. Retrying usually helps.",
+      true, cause);
+    this.name = 'MalformedResponseError';
+  }
+}
+
+export class InvalidInputError extends AppError {
+  constructor(message: string) {
+    super('invalid-input', 'Invalid input', message, false);
+    this.name = 'InvalidInputError';
+  }
+}
+
+// Map whatever a provider or the browser threw onto the typed errors above
+export function toAppError(error: unknown): AppError {
+  if (error instanceof AppError) return error;
+
+  const status = (error as { status?: unknown })?.status;
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (status === 401 || status === 403 || /api[ _-]?key/i.test(message)) return new AuthError(error);
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota/i.test(message)) return new QuotaError(error);
+  if (/SAFETY|PROHIBITED_CONTENT|BLOCKLIST/.test(message)) return new SafetyError(undefined, error);
+  // e.g. an unsupported file type or a payload over the size limit
+  if (status === 400) return new InvalidInputError(message || 'The request was rejected as invalid.');
+  if ((typeof status === 'number' && status >= 500) || (error instanceof TypeError && /fetch|network/i.test(message))) {
+    return new NetworkError(undefined, error);
+  }
+  return new AppError('unknown', 'Something went wrong', message || 'An unexpected error occurred. Please try again.', true, error);
+}
@@ -0,0 +1,122 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Creation } from '../components/CreationHistory';
+import { getRevisions } from './creations';
+import { AppData } from './appData';
+import { dataUrlToBlob, loadAppData } from './storage';
+import { createZip, ZipEntry } from './zip';
+
+export type ExportFormat = 'json' | 'html' | 'zip';
+
+const EXTENSIONS: Record<string, string> = {
+  'application/pdf': 'pdf',
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+};
+
+const slugify = (name: string) => name.replace(/[^a-z0-9]/gi, '_').toLowerCase();
+
+const REVOKE_DELAY_MS = 1000;
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  // Revoking right away can cancel the download in some browsers (Safari), so wait for it to start
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+}
+
+// The artifact format the app can re-import, with whatever the app saved for itself
+function buildJson(creation: Creation, appData: AppData): Blob {
+  const artifact = Object.keys(appData).length > 0 ? { ...creation, appData } : creation;
+  return new Blob([JSON.stringify(artifact, null, 2)], { type: "application/json" });
+}
+
+function buildHtml(creation: Creation): Blob {
+  return new Blob([creation.html], { type: 'text/html' });
+}
+
+function buildReadme(creation: Creation, inputFiles: string[], hasAppData: boolean): string {
+  return `# ${creation.name}
+
+A self-contained web app. Open \`index.html\` in any modern browser; no install or server needed.
+
+## Contents
+
+- \`index.html\`: the app (latest version)
+${inputFiles.length > 0 ? `- \`inputs/\`: the original ${inputFiles.length > 1 ? 'files' : 'file'} it was generated from, in order\n` : ''}- \`revisions/\`: every saved version, oldest first
+${hasAppData ? "- \`app-data.json\`: what the app saved to localStorage while in use\n" : ''}- \`manifest.json\`: metadata and the revision history
+`;
+}
+
+async function buildZip(creation: Creation, appData: AppData): Promise<Blob> {
+  const revisions = getRevisions(creation);
+  const entries: ZipEntry[] = [{ path: 'index.html', data: creation.html }];
+
+  const inputs = [];
+  for (const [i, input] of (creation.inputs ?? []).entries()) {
+    const blob = dataUrlToBlob(input.dataUrl);
+    const file = `inputs/${i + 1}.${EXTENSIONS[blob.type] ?? 'bin'}`;
+    entries.push({ path: file, data: new Uint8Array(await blob.arrayBuffer()) });
+    inputs.push({ file, name: input.name, mimeType: blob.type, caption: input.caption ?? null });
+  }
+
+  revisions.forEach((revision, i) => {
+    entries.push({ path: `revisions/v${i + 1}.html`, data: revision.html });
+  });
+
+  const hasAppData = Object.keys(appData).length > 0;
+  if (hasAppData) {
+    entries.push({ path: 'app-data.json', data: JSON.stringify(appData, null, 2) });
+  }
+
+  const manifest = {
+    id: creation.id,
+    name: creation.name,
+    description: creation.description ?? null,
+    notes: creation.notes ?? [],
+    createdAt: revisions[0].timestamp.toISOString(),
+    updatedAt: creation.timestamp.toISOString(),
+    exportedAt: new Date().toISOString(),
+    entry: 'index.html',
+    inputs,
+    mathGame: creation.mathGame ?? null,
+    plan: creation.plan ?? null,
+    appData: hasAppData ? 'app-data.json' : null,
+    revisions: revisions.map((revision, i) => ({
+      version: i + 1,
+      file: `revisions/v${i + 1}.html`,
+      instruction: revision.instruction ?? null,
+      timestamp: revision.timestamp.toISOString(),
+    })),
+  };
+  entries.push({ path: 'manifest.json', data: JSON.stringify(manifest, null, 2) });
+  entries.push({ path: 'README.md', data: buildReadme(creation, inputs.map(input => input.file), hasAppData) });
+
+  return createZip(entries);
+}
+
+export function downloadWorksheet(creation: Creation, html: string) {
+  downloadBlob(new Blob([html], { type: 'text/html' }), `${slugify(creation.name)}_worksheet.html`);
+}
+
+export async function exportCreation(creation: Creation, format: ExportFormat) {
+  const base = slugify(creation.name);
+  switch (format) {
+    case 'json':
+      return downloadBlob(buildJson(creation, await loadAppData(creation.id)), `${base}_artifact.json`);
+    case 'html':
+      return downloadBlob(buildHtml(creation), `${base}.html`);
+    case 'zip':
+      return downloadBlob(await buildZip(creation, await loadAppData(creation.id)), `${base}.zip`);
+  }
+}
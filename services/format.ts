@@ -0,0 +1,151 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Formatting for the code editor. It only rewrites the indentation at the start of each
+// line, from the nesting of html elements and of brackets inside <script> and <style>.
+// Lines are never split or joined, so the page renders exactly as before. Lines inside
+// <pre>, <textarea> or a multi-line template literal keep their whitespace untouched.
+
+const INDENT = '  ';
+
+const VOID_ELEMENTS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+const RAW_TEXT_ELEMENTS = new Set(['pre', 'textarea']);
+
+type Mode = 'text' | 'tag' | 'comment' | 'raw' | 'code';
+
+interface State {
+  mode: Mode;
+  depth: number; // Open html elements
+  codeDepth: number; // Open brackets in the current script or style
+  codeLanguage: 'script' | 'style' | null;
+  tag: { name: string; closing: boolean; quote: string | null } | null;
+  rawElement: string | null; // The <pre> or <textarea> being skipped
+  codeString: string | null; // Quote of the string literal being read; ` may span lines
+  inCodeComment: boolean; // Inside /* */
+}
+
+const startsWithAt = (text: string, index: number, search: string) =>
+  text.slice(index, index + search.length).toLowerCase() === search;
+
+// Advances the state over one line
+function scanLine(line: string, state: State) {
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    switch (state.mode) {
+      case 'comment':
+        if (startsWithAt(line, i, '-->')) {
+          state.mode = 'text';
+          i += 2;
+        }
+        break;
+
+      case 'raw':
+        if (startsWithAt(line, i, `</${state.rawElement}`)) {
+          state.mode = 'tag';
+          state.tag = { name: state.rawElement!, closing: true, quote: null };
+          state.rawElement = null;
+          i += 1;
+        }
+        break;
+
+      case 'text':
+        if (startsWithAt(line, i, '<!--')) {
+          state.mode = 'comment';
+          i += 3;
+        } else if (char === '<') {
+          const name = line.slice(i + 1).match(/^(\/?)([a-zA-Z][\w:-]*)/);
+          if (name) {
+            state.mode = 'tag';
+            state.tag = { name: name[2].toLowerCase(), closing: name[1] === '/', quote: null };
+            i += name[0].length;
+          }
+        }
+        break;
+
+      case 'tag': {
+        const tag = state.tag!;
+        if (tag.quote) {
+          if (char === tag.quote) tag.quote = null;
+        } else if (char === '"' || char === "'") {
+          tag.quote = char;
+        } else if (char === '>') {
+          const selfClosing = line[i - 1] === '/';
+          state.tag = null;
+          state.mode = 'text';
+          if (tag.closing) {
+            state.depth = Math.max(0, state.depth - 1);
+          } else if (!VOID_ELEMENTS.has(tag.name) && !selfClosing) {
+            state.depth++;
+            if (tag.name === 'script' || tag.name === 'style') {
+              state.mode = 'code';
+              state.codeLanguage = tag.name;
+              state.codeDepth = 0;
+            } else if (RAW_TEXT_ELEMENTS.has(tag.name)) {
+              state.mode = 'raw';
+              state.rawElement = tag.name;
+            }
+          }
+        }
+        break;
+      }
+
+      case 'code':
+        if (state.inCodeComment) {
+          if (startsWithAt(line, i, '*/')) {
+            state.inCodeComment = false;
+            i += 1;
+          }
+        } else if (state.codeString) {
+          if (char === '\\') i += 1;
+          else if (char === state.codeString) state.codeString = null;
+        } else if (startsWithAt(line, i, `</${state.codeLanguage}`)) {
+          state.mode = 'tag';
+          state.tag = { name: state.codeLanguage!, closing: true, quote: null };
+          state.codeLanguage = null;
+          i += 1;
+        } else if (startsWithAt(line, i, '/*')) {
+          state.inCodeComment = true;
+          i += 1;
+        } else if (state.codeLanguage === 'script' && startsWithAt(line, i, '//')) {
+          i = line.length;
+        } else if (char === '"' || char === "'" || (char === '`' && state.codeLanguage === 'script')) {
+          state.codeString = char;
+        } else if ('{[('.includes(char)) {
+          state.codeDepth++;
+        } else if ('}])'.includes(char)) {
+          state.codeDepth = Math.max(0, state.codeDepth - 1);
+        }
+        break;
+    }
+  }
+  // Only template literals continue onto the next line
+  if (state.codeString && state.codeString !== '`') state.codeString = null;
+}
+
+function indentFor(trimmed: string, state: State): number {
+  if (state.mode === 'code') {
+    if (startsWithAt(trimmed, 0, `</${state.codeLanguage}`)) return state.depth - 1;
+    const closers = trimmed.match(/^[}\])]+/)?.[0].length ?? 0;
+    return state.depth + Math.max(0, state.codeDepth - closers);
+  }
+  // Attributes continued on the following lines sit one level in from their tag
+  if (state.mode === 'tag') return state.depth + 1;
+  if (trimmed.startsWith('</')) return state.depth - 1;
+  return state.depth;
+}
+
+export function formatHtml(html: string): string {
+  const state: State = {
+    mode: 'text', depth: 0, codeDepth: 0, codeLanguage: null, tag: null, rawElement: null, codeString: null, inCodeComment: false,
+  };
+
+  return html.split('\n').map(line => {
+    const keepAsIs = state.mode === 'raw' || state.mode === 'comment' || (state.mode === 'code' && state.codeString === '`');
+    const trimmed = line.trim();
+    const formatted = keepAsIs ? line : trimmed && INDENT.repeat(Math.max(0, indentFor(trimmed, state))) + trimmed;
+    scanLine(line, state);
+    return formatted;
+  }).join('\n');
+}
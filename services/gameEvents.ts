@@ -0,0 +1,106 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { BRIDGE_SOURCE, injectIntoHead } from './previewBridge';
+
+// Game event protocol. Generated games report their progress to the host so plays can be
+// recorded in a per-creation leaderboard. The preview injects `window.gameEvents`:
+//
+//   gameEvents.start()                   a new play begins (also restarts after game over)
+//   gameEvents.score(total)              the current total score, not an increment
+//   gameEvents.levelComplete(level, total?)  a level or round was finished (1-based)
+//   gameEvents.gameOver(total?)          the play ended; the final score if given
+//
+// Each call posts { source: BRIDGE_SOURCE, type: 'game-event', event, score?, level? } to
+// the parent window, which apps may also send themselves. Outside the preview (e.g. an
+// exported file) the object is missing, so games call it as `window.gameEvents?.start()`.
+
+export const GAME_EVENTS = ['game-start', 'score-update', 'level-complete', 'game-over'] as const;
+export type GameEventType = typeof GAME_EVENTS[number];
+
+export interface GameEventMessage {
+  source: typeof BRIDGE_SOURCE;
+  type: 'game-event';
+  event: GameEventType;
+  score?: number;
+  level?: number;
+}
+
+// One play of a game, recorded from its first event
+export interface GameSession {
+  id: string;
+  player: string;
+  startedAt: Date;
+  endedAt?: Date; // Set on game over; absent for plays that were abandoned or are running
+  score: number;
+  level: number; // Highest level completed, 0 before the first
+}
+
+// Oldest plays are dropped past this, so a game restarted in a loop can't grow without bound
+export const MAX_SESSIONS = 200;
+
+// Kept on one line like the error bridge so line numbers in the app stay unchanged
+const GAME_EVENTS_SCRIPT = `
+(function () {
+  var post = function (event, detail) {
+    var message = { source: '${BRIDGE_SOURCE}', type: 'game-event', event: event };
+    if (detail.score !== undefined) message.score = Number(detail.score);
+    if (detail.level !== undefined) message.level = Number(detail.level);
+    try { parent.postMessage(message, '*'); } catch (e) {}
+  };
+  window.gameEvents = {
+    start: function () { post('game-start', {}); },
+    score: function (total) { post('score-update', { score: total }); },
+    levelComplete: function (level, total) { post('level-complete', { level: level, score: total }); },
+    gameOver: function (total) { post('game-over', { score: total }); }
+  };
+})();
+`.replace(/\n\s*/g, '');
+
+export function injectGameEvents(html: string): string {
+  return injectIntoHead(html, `<script data-game-events>${GAME_EVENTS_SCRIPT}</script>`);
+}
+
+const isOptionalNumber = (value: unknown) => value === undefined || (typeof value === 'number' && Number.isFinite(value));
+
+export function isGameEventMessage(data: unknown): data is GameEventMessage {
+  const message = data as GameEventMessage | null;
+  return message?.source === BRIDGE_SOURCE && message.type === 'game-event'
+    && GAME_EVENTS.includes(message.event) && isOptionalNumber(message.score) && isOptionalNumber(message.level);
+}
+
+const isUntouched = (session: GameSession) => !session.endedAt && session.score === 0 && session.level === 0;
+
+// Folds an event into the recorded sessions, newest last. The last session is the open play
+// until it ends; events after a game over without a new start open another one. A play that
+// never scored is replaced rather than kept when the next one starts.
+export function applyGameEvent(sessions: GameSession[], message: GameEventMessage, player: string): GameSession[] {
+  const last = sessions[sessions.length - 1];
+  const isOpen = !!last && !last.endedAt;
+  const newSession = (): GameSession => ({ id: crypto.randomUUID(), player, startedAt: new Date(), score: 0, level: 0 });
+
+  let kept = sessions;
+  let session: GameSession;
+  if (message.event === 'game-start' || !isOpen) {
+    if (isOpen && isUntouched(last)) kept = sessions.slice(0, -1);
+    session = newSession();
+  } else {
+    kept = sessions.slice(0, -1);
+    session = { ...last };
+  }
+
+  if (message.score !== undefined) session.score = message.score;
+  if (message.event === 'level-complete') session.level = Math.max(session.level, message.level ?? session.level + 1);
+  if (message.event === 'game-over') session.endedAt = new Date();
+
+  return [...kept, session].slice(-MAX_SESSIONS);
+}
+
+// Highest scores first; ties go to whoever got there first
+export function bestSessions(sessions: GameSession[], limit: number): GameSession[] {
+  return sessions
+    .filter(session => session.score > 0 || session.endedAt)
+    .sort((a, b) => b.score - a.score || a.startedAt.getTime() - b.startedAt.getTime())
+    .slice(0, limit);
+}
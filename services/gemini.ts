@@ -2,12 +2,44 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
+import { getProvider, ModelRequest, ModelTask, ContentPart } from './provider';
+import { withRetry, abortError, isAbortError } from './retry';
+import { toAppError, EmptyResponseError, MalformedResponseError } from './errors';
+import { PreviewError } from './previewBridge';
+import { validateHtml, ValidationReport } from './validator';
+import { MathGameSpec, MathOperation, DifficultyCurve, GameMechanic, MECHANIC_LABELS, describeMathGame, gradeLabel } from './mathGame';
+import { AppPlan, toAppPlan, planToText } from './plan';
 
-// Using gemini-3-pro-preview for complex tasks with thinking.
-const GEMINI_MODEL = 'gemini-3-pro-preview';
+// Prompts and response handling live here; the backend that runs them is chosen in ./provider.
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// The game event protocol from ./gameEvents, as games are asked to use it
+const GAME_EVENTS_DIRECTIVE = `**Report Game Events**: If the app is a game, report its progress to the host through the injected \`window.gameEvents\` object, always with optional chaining because it is missing outside the preview:
+    - \`window.gameEvents?.start()\` when a play begins, including every restart.
+    - \`window.gameEvents?.score(total)\` whenever the score changes, with the new total (not the increment).
+    - \`window.gameEvents?.levelComplete(level, total)\` when a level or round is finished (level is 1-based).
+    - \`window.gameEvents?.gameOver(total)\` when the play ends, with the final score.`;
+
+// New apps come back as JSON, so the html arrives with a name and details instead of being cut out of free text
+const GENERATION_RESPONSE_FORMAT = `RESPONSE FORMAT:
+Respond with a JSON object with these fields:
+- "title": a short, descriptive name for the app (2 to 5 words). Not the file name.
+- "description": one sentence saying what the app does.
+- "tags": 2 to 5 short lowercase keywords, such as "game", "utility", "math" or "dashboard".
+- "notes": the assumptions you made where the input was ambiguous, one short sentence each. Empty if there were none.
+- "html": the complete app as a single HTML document, starting with <!DOCTYPE html>.`;
+
+const GENERATION_SCHEMA = {
+  type: 'object',
+  // The html goes last so the details are complete by the time the app starts streaming
+  properties: {
+    title: { type: 'string' },
+    description: { type: 'string' },
+    tags: { type: 'array', items: { type: 'string' } },
+    notes: { type: 'array', items: { type: 'string' } },
+    html: { type: 'string' },
+  },
+  required: ['title', 'description', 'tags', 'notes', 'html'],
+};
 
 const SYSTEM_INSTRUCTION = `You are an expert AI Engineer and Product Designer specializing in "bringing artifacts to life".
 Your goal is to take a user uploaded file—which might be a polished UI design, a messy napkin sketch, a photo of a whiteboard with jumbled notes, or a picture of a real-world object (like a messy desk)—and instantly generate a fully functional, interactive, single-page HTML/JS/CSS application.
@@ -28,9 +60,60 @@ CORE DIRECTIVES:
 3. **Make it Interactive**: The output MUST NOT be static. It needs buttons, sliders, drag-and-drop, or dynamic visualizations.
 4. **Self-Contained**: The output must be a single HTML file with embedded CSS (<style>) and JavaScript (<script>). No external dependencies unless absolutely necessary (Tailwind via CDN is allowed).
 5. **Robust & Creative**: If the input is messy or ambiguous, generate a "best guess" creative interpretation. Never return an error. Build *something* fun and functional.
+6. ${GAME_EVENTS_DIRECTIVE}
 
-RESPONSE FORMAT:
-Return ONLY the raw HTML code. Do not wrap it in markdown code blocks (\`\`\`html ... \`\`\`). Start immediately with <!DOCTYPE html>.`;
+${GENERATION_RESPONSE_FORMAT}`;
+
+const OPERATION_GUIDANCE: Record<MathOperation, string> = {
+  addition: 'Addition problems. Only carry across place values if the grade has learned it.',
+  subtraction: 'Subtraction problems. Results must stay within the number range; avoid negative answers below grade 6.',
+  multiplication: 'Multiplication problems using operands from the number range (times tables for the lower grades).',
+  division: 'Division problems that always divide evenly, built by multiplying two numbers from the range.',
+  fractions: 'Fraction problems: comparing, equivalent fractions, and adding or subtracting with like denominators (unlike denominators from grade 5). Draw fractions as pie or bar diagrams.',
+  geometry: 'Geometry problems: naming shapes, counting sides and corners, perimeter and area with whole numbers from the range. Draw every shape with inline SVG.',
+};
+
+const DIFFICULTY_GUIDANCE: Record<DifficultyCurve, string> = {
+  steady: 'Keep every round at the same difficulty, spread evenly across the number range.',
+  gradual: 'Start with the smallest numbers and simplest problems, and increase difficulty a little every round so the last round uses the top of the range.',
+  steep: 'Start easy but reach the top of the number range by the middle of the game, then keep it hard.',
+  adaptive: 'Track the player\'s accuracy: make the next problem harder after two correct answers in a row and easier after a wrong answer, always within the number range.',
+};
+
+const MECHANIC_GUIDANCE: Record<GameMechanic, string> = {
+  quiz: 'Each round shows one problem with four answer buttons; exactly one is correct and the wrong ones are plausible mistakes.',
+  race: 'The player races an opponent along a track; each correct answer moves them forward, and slow or wrong answers let the opponent catch up.',
+  puzzle: 'A picture is hidden behind tiles; each correct answer reveals a tile, and the last round completes the picture.',
+  arcade: 'Answers fall or float across the screen and the player catches or taps the correct one for the current problem before it escapes.',
+  adventure: 'The player travels across a map; each stop is guarded by a problem that has to be solved to move on.',
+  memory: 'A grid of face-down cards holds problems and their answers; the player flips two at a time to match each problem with its answer.',
+};
+
+// Replaces the open-ended generation brief when the user fills in the math game form
+function mathGameInstruction(spec: MathGameSpec): string {
+  return `You are an expert educational game designer and frontend engineer who builds math games for children.
+Build a complete, polished, single-page HTML/JS/CSS math game from the specification below.
+
+SPECIFICATION:
+- **Audience**: ${gradeLabel(spec.grade)} students. Use vocabulary, font sizes and visuals that suit this age.
+- **Operations** (mix them across the rounds):
+${spec.operations.map(op => `  - ${OPERATION_GUIDANCE[op]}`).join('\n')}
+- **Number range**: Every operand is a whole number from ${spec.minNumber} to ${spec.maxNumber}.
+- **Rounds**: Exactly ${spec.rounds} rounds, with a visible "Round X of ${spec.rounds}" indicator.
+- **Difficulty curve (${spec.difficulty})**: ${DIFFICULTY_GUIDANCE[spec.difficulty]}
+- **Game mechanic (${MECHANIC_LABELS[spec.mechanic].label})**: ${MECHANIC_GUIDANCE[spec.mechanic]}
+
+GAME DIRECTIVES:
+1. **Correct Math**: Generate problems in JavaScript at runtime from the rules above and compute every answer in code. Never hard-code answers.
+2. **Feedback**: Show immediately whether an answer was right; after a wrong answer show the correct one with a short worked explanation.
+3. **Flow**: A start screen with the game title and a play button, then the rounds, then a results screen with the score, accuracy and a "Play again" button.
+4. **Accessible**: Large touch targets, keyboard support (number keys or Enter for answers), readable contrast, and no time pressure on the answer itself unless the mechanic is a race.
+5. **NO EXTERNAL IMAGES**: Use CSS shapes, inline SVGs or emojis for every visual.
+6. **Self-Contained**: A single HTML file with embedded CSS (<style>) and JavaScript (<script>). Tailwind via CDN is allowed.
+7. ${GAME_EVENTS_DIRECTIVE} Count one point per correct answer unless the mechanic calls for something else, and report each finished round as a completed level.
+
+${GENERATION_RESPONSE_FORMAT}`;
+}
 
 const REFINE_SYSTEM_INSTRUCTION = `You are an expert Frontend Developer.
 You will be given the full source code of a single-page HTML application and a user instruction to modify it.
@@ -39,8 +122,30 @@ YOUR TASK:
 1. Apply the user's requested changes to the code.
 2. Fix any obvious bugs you see while you are there.
 3. Ensure the code remains self-contained (HTML+CSS+JS in one file).
-4. Do NOT output explanations. Output ONLY the fully updated raw HTML code.
-5. Start immediately with <!DOCTYPE html>.`;
+4. Keep any \`window.gameEvents\` calls working, and add them if the change turns the app into a game or changes how it scores.
+5. Do NOT output explanations. Output ONLY the fully updated raw HTML code.
+6. Start immediately with <!DOCTYPE html>.`;
+
+const WORKSHEET_SYSTEM_INSTRUCTION = `You are an experienced primary school teacher who also designs print materials.
+You will be given the source code of an interactive web app (usually a math game), and sometimes the files it was originally made from. Turn it into a printable paper worksheet that practices the same skills.
+
+WORKSHEET DIRECTIVES:
+1. **Same Content**: Read the app's code to find the topic, the problem types, the number ranges and the difficulty it uses, and match them. Reuse its theme, characters and wording so the worksheet feels like the paper version of the game.
+2. **Structure**: A title, lines for Name and Date, one sentence of instructions for the student, then 12 to 30 numbered problems that go from easier to harder, each with enough blank space or answer lines to write in.
+3. **Answer Key**: After the problems, an answer key with every answer numbered like its problem, inside a \`<section class="answer-key">\` that starts on a new page.
+4. **Correct Math**: Work out every answer carefully and check it twice. A wrong answer key is worse than none.
+5. **Print Layout**: Use @page with A4/Letter friendly margins, sizes in pt or mm, \`break-inside: avoid\` on each problem and \`break-before: page\` on the answer key. It must print well in black and white: no dark backgrounds, no meaning carried by color alone. On screen, show each page as a white sheet.
+6. **Static**: No JavaScript, animations or interactive controls. Draw shapes, fraction bars and diagrams with inline SVG. No external images or fonts.
+
+RESPONSE FORMAT:
+Return ONLY the raw HTML code. Do not wrap it in markdown code blocks (\`\`\`html ... \`\`\`). Start immediately with <!DOCTYPE html>.`;
+
+export const FINDING_CATEGORIES = ['bug', 'performance', 'accessibility', 'best-practice', 'code-quality'] as const;
+export type FindingCategory = typeof FINDING_CATEGORIES[number];
+
+// Most severe first
+export const FINDING_SEVERITIES = ['critical', 'high', 'medium', 'low'] as const;
+export type FindingSeverity = typeof FINDING_SEVERITIES[number];
 
 const ANALYSIS_SYSTEM_INSTRUCTION = `You are a Senior Staff Software Engineer conducting a code review.
 Analyze the provided HTML/CSS/JS code.
@@ -51,15 +156,267 @@ Focus on:
 4. Potential bugs or edge cases
 5. Accessibility
 
-Format your response as a concise Markdown report. Keep it constructive and helpful.`;
+Report each issue as a separate finding with:
+- category: one of ${FINDING_CATEGORIES.join(', ')}
+- severity: one of ${FINDING_SEVERITIES.join(', ')}
+- title: a short summary (under 10 words)
+- description: one or two sentences on why it matters
+- snippet: the affected code, copied verbatim from the input (at most 10 lines)
+- fix: a concrete instruction a developer could follow to resolve it
+
+Order findings from most to least important and keep the list focused (at most 12).
+Respond with JSON only, in the form {"findings": [...]}.`;
+
+const PLAN_SYSTEM_INSTRUCTION = `You are an expert AI Engineer and Product Designer specializing in "bringing artifacts to life".
+The user will give you an uploaded file (a UI design, a napkin sketch, a whiteboard photo, a document or a picture of a real-world object) and/or a text request. Before anything is built, write down the single-page web app you would build from it so the user can check and correct your reading.
+
+Describe:
+- observations: what you actually see in the input (elements, labels, sketches, objects) and anything ambiguous, in a few sentences
+- concept: the app in one or two sentences. Real-world objects become a game or a utility built around them
+- features: 3 to 8 concrete things the app does
+- controls: how the user interacts (buttons, keys, drag and drop, sliders)
+- layout: where the main parts sit on the screen and the visual style
+
+Keep every item short and specific. The app will be a self-contained HTML file with no external images, so plan visuals as CSS, SVG or emojis.
+Respond with JSON only.`;
+
+const PLAN_SCHEMA = {
+  type: 'object',
+  properties: {
+    observations: { type: 'string' },
+    concept: { type: 'string' },
+    features: { type: 'array', items: { type: 'string' } },
+    controls: { type: 'array', items: { type: 'string' } },
+    layout: { type: 'string' },
+  },
+  required: ['observations', 'concept', 'features', 'controls', 'layout'],
+};
+
+// Real milestones of a streamed generation, in the order they happen
+export const GENERATION_STAGES = [
+  'request-sent',
+  'thinking-started',
+  'thoughts-received',
+  'first-html',
+  'generation-complete',
+  'cleanup-done',
+] as const;
+
+export type GenerationStage = typeof GENERATION_STAGES[number];
+
+export interface GenerationProgress {
+  task: ModelTask; // What is streaming, which decides the shape of `text`
+  stage: GenerationStage; // Latest milestone reached
+  thoughts: string[]; // Thought summaries streamed by the model so far
+  text: string; // Raw text accumulated so far (cleaned up once the stage is 'cleanup-done')
+  tokenCount?: number; // Output tokens reported by the API, when available
+  attempt: number; // 1 for the first try, higher after a retryable failure restarted the stream
+}
+
+export interface AnalysisFinding {
+  id: string;
+  category: FindingCategory;
+  severity: FindingSeverity;
+  title: string;
+  description: string;
+  snippet: string; // Affected code, as quoted by the model
+  fix: string; // Suggested change, phrased as an instruction
+}
+
+const FINDINGS_SCHEMA = {
+  type: 'object',
+  properties: {
+    findings: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          category: { type: 'string', enum: FINDING_CATEGORIES },
+          severity: { type: 'string', enum: FINDING_SEVERITIES },
+          title: { type: 'string' },
+          description: { type: 'string' },
+          snippet: { type: 'string' },
+          fix: { type: 'string' },
+        },
+        required: ['category', 'severity', 'title', 'description', 'snippet', 'fix'],
+      },
+    },
+  },
+  required: ['findings'],
+};
+
+export interface GenerationInput {
+  data: string; // Base64 without the data URL prefix
+  mimeType: string;
+  caption?: string;
+}
+
+export interface GeneratedHtml {
+  html: string; // Repaired by the validator
+  validation: ValidationReport;
+}
+
+// A new app with the details the model gave it
+export interface GeneratedApp extends GeneratedHtml {
+  title: string;
+  description: string;
+  tags: string[]; // Lowercase, without duplicates
+  notes: string[]; // Assumptions the model made about ambiguous input
+}
+
+export interface GenerationOptions {
+  onProgress?: (progress: GenerationProgress) => void;
+  signal?: AbortSignal;
+}
+
+export interface GenerateOptions extends GenerationOptions {
+  mathGame?: MathGameSpec; // Builds a math game from this spec instead of interpreting the inputs freely
+  plan?: AppPlan; // A plan the user approved, which overrides the model's own reading of the inputs
+}
+
+// Per-attempt limits; generation gets the most room because of its large thinking budget
+const GENERATE_TIMEOUT_MS = 5 * 60 * 1000;
+const REFINE_TIMEOUT_MS = 3 * 60 * 1000;
+const ANALYZE_TIMEOUT_MS = 3 * 60 * 1000;
+const PLAN_TIMEOUT_MS = 3 * 60 * 1000;
+const WORKSHEET_TIMEOUT_MS = 3 * 60 * 1000;
+
+// Cleanup if the model still included markdown fences despite instructions
+function stripMarkdownFences(text: string): string {
+  return text.trim().replace(/^```html\s*/, '').replace(/^```\s*/, '').replace(/```$/, '');
+}
+
+// Structured responses shouldn't be fenced, but a provider without schema support may still do it
+function stripJsonFences(text: string): string {
+  return text.trim().replace(/^```(?:json)?\s*/, '').replace(/```$/, '');
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new MalformedResponseError(error);
+  }
+}
+
+const JSON_ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+
+// The html streamed so far, for the live preview. Refinements stream raw html, often fenced. A new
+// app streams as JSON with its html field still open, so the field is decoded up to the last complete character.
+export function partialHtml(text: string, task: ModelTask): string {
+  if (task !== 'generate') return stripMarkdownFences(text);
+  const start = text.match(/"html"\s*:\s*"/);
+  if (!start || start.index === undefined) return '';
+
+  let html = '';
+  for (let i = start.index + start[0].length; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"') break;
+    if (char !== '\\') {
+      html += char;
+      continue;
+    }
+    const escaped = text[i + 1];
+    if (escaped === undefined) break;
+    if (escaped === 'u') {
+      const hex = text.slice(i + 2, i + 6);
+      if (hex.length < 4) break;
+      html += String.fromCharCode(parseInt(hex, 16));
+      i += 5;
+    } else {
+      html += JSON_ESCAPES[escaped] ?? escaped;
+      i += 1;
+    }
+  }
+  return html;
+}
+
+// Stages only move forward, e.g. a late thought summary does not undo 'first-html'
+function laterStage(a: GenerationStage, b: GenerationStage): GenerationStage {
+  return GENERATION_STAGES.indexOf(a) >= GENERATION_STAGES.indexOf(b) ? a : b;
+}
+
+// Stream a response, reporting progress after every chunk, then run the cleanup once on the final text.
+// A retryable failure (including an empty response) restarts the whole stream, so progress is reset
+// for the new attempt. Failures are rethrown as typed AppErrors; aborts pass through unchanged.
+async function streamText(
+  request: ModelRequest,
+  options: GenerationOptions,
+  timeoutMs: number,
+  cleanup: (text: string) => string
+): Promise<string> {
+  let progress: GenerationProgress = { task: request.task, stage: 'request-sent', thoughts: [], text: '', attempt: 1 };
+  const report = (update: Partial<GenerationProgress>) => {
+    progress = { ...progress, ...update };
+    options.onProgress?.(progress);
+  };
+
+  report({});
+  try {
+    await withRetry(async signal => {
+      const stream = await getProvider().stream(request, signal);
+      // The stream opens once the request is accepted; the model reasons before any output arrives
+      report({ stage: 'thinking-started' });
+
+      for await (const { thoughts, text: delta, tokenCount } of stream) {
+        // Providers should stop on abort themselves; this guards against ones that keep yielding
+        if (signal.aborted) throw signal.reason instanceof Error ? signal.reason : abortError();
+
+        let stage = progress.stage;
+        if (thoughts.length > 0) stage = laterStage(stage, 'thoughts-received');
+        if (delta) stage = laterStage(stage, 'first-html');
+
+        report({
+          stage,
+          thoughts: thoughts.length > 0 ? [...progress.thoughts, ...thoughts] : progress.thoughts,
+          text: progress.text + delta,
+          tokenCount: tokenCount ?? progress.tokenCount,
+        });
+      }
+      if (!progress.text.trim()) throw new EmptyResponseError();
+    }, {
+      signal: options.signal,
+      timeoutMs,
+      onRetry: attempt => report({ stage: 'request-sent', thoughts: [], text: '', tokenCount: undefined, attempt }),
+    });
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    throw toAppError(error);
+  }
+  report({ stage: 'generation-complete' });
+
+  const text = cleanup(progress.text);
+  report({ stage: 'cleanup-done', text });
+  return text;
+}
+
+// Html output goes through the validator, which repairs what it safely can and reports the rest
+async function streamHtml(request: ModelRequest, options: GenerationOptions, timeoutMs: number): Promise<GeneratedHtml> {
+  const text = await streamText(request, options, timeoutMs, stripMarkdownFences);
+  const { html, report } = validateHtml(text);
+  return { html, validation: report };
+}
 
-export async function bringToLife(prompt: string, fileBase64?: string, mimeType?: string): Promise<string> {
-  const parts: any[] = [];
+// The request and the labelled input files, shared by planning and generation
+function requestParts(prompt: string, inputs: GenerationInput[], mathGame?: MathGameSpec): ContentPart[] {
+  const parts: ContentPart[] = [];
   
   // Construct the prompt, integrating user instructions if provided
   let textPart = "";
-  if (fileBase64) {
-      const defaultFilePrompt = "Analyze this image/document. Detect what functionality is implied. If it is a real-world object (like a desk), gamify it (e.g., a cleanup game). Build a fully interactive web app. IMPORTANT: Do NOT use external image URLs. Recreate the visuals using CSS, SVGs, or Emojis.";
+  if (mathGame) {
+      // The spec lives in the system instruction; files are reference material such as a worksheet
+      textPart = `Build the ${describeMathGame(mathGame)} game described in your instructions.`;
+      if (inputs.length > 0) {
+          textPart += ` Use the attached ${inputs.length > 1 ? 'files' : 'file'} as reference for the problems and theme.`;
+      }
+      if (prompt && prompt.trim()) {
+          textPart += `\n\nUSER REQUEST / CONTEXT: ${prompt}`;
+      }
+  } else if (inputs.length > 0) {
+      const subject = inputs.length > 1
+        ? `these ${inputs.length} images/documents. They describe a single project and are given in order`
+        : "this image/document";
+      const defaultFilePrompt = `Analyze ${subject}. Detect what functionality is implied. If it is a real-world object (like a desk), gamify it (e.g., a cleanup game). Build a fully interactive web app. IMPORTANT: Do NOT use external image URLs. Recreate the visuals using CSS, SVGs, or Emojis.`;
       textPart = defaultFilePrompt;
       if (prompt && prompt.trim()) {
           textPart += `\n\nUSER REQUEST / CONTEXT: ${prompt}`;
@@ -70,88 +427,173 @@ export async function bringToLife(prompt: string, fileBase64?: string, mimeType?
 
   parts.push({ text: textPart });
 
-  if (fileBase64 && mimeType) {
+  // Label each file so the model can tell them apart and relate captions to them
+  inputs.forEach((input, i) => {
+    if (inputs.length > 1 || input.caption) {
+      const label = inputs.length > 1 ? `Input ${i + 1} of ${inputs.length}` : 'Input';
+      parts.push({ text: input.caption ? `${label}: ${input.caption}` : label });
+    }
     parts.push({
       inlineData: {
-        data: fileBase64,
-        mimeType: mimeType,
+        data: input.data,
+        mimeType: input.mimeType,
       },
     });
-  }
+  });
+  return parts;
+}
 
-  try {
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: GEMINI_MODEL,
-      contents: {
-        parts: parts
-      },
-      config: {
-        systemInstruction: SYSTEM_INSTRUCTION,
-        // Enable Thinking Mode for complex reasoning
-        thinkingConfig: { thinkingBudget: 32768 }, 
-        temperature: 0.5, 
-      },
-    });
+// First phase of plan-then-build: what the model would build, for the user to edit before generating
+export async function planApp(prompt: string, inputs: GenerationInput[] = [], options: GenerationOptions = {}): Promise<AppPlan> {
+  const text = await streamText({
+    task: 'plan',
+    systemInstruction: PLAN_SYSTEM_INSTRUCTION,
+    parts: requestParts(prompt, inputs),
+    thinkingBudget: 8192,
+    temperature: 0.5,
+    responseSchema: PLAN_SCHEMA,
+  }, options, PLAN_TIMEOUT_MS, stripJsonFences);
+
+  const plan = toAppPlan(parseJson(text));
+  if (!plan) throw new MalformedResponseError();
+  return plan;
+}
 
-    let text = response.text || "<!-- Failed to generate content -->";
+const MAX_TITLE_LENGTH = 60;
+const MAX_TAGS = 5;
+const MAX_TAG_LENGTH = 24;
 
-    // Cleanup if the model still included markdown fences despite instructions
-    text = text.replace(/^```html\s*/, '').replace(/^```\s*/, '').replace(/```$/, '');
+const toText = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+const toTextList = (value: unknown) => (Array.isArray(value) ? value.map(toText).filter(Boolean) : []);
 
-    return text;
-  } catch (error) {
-    console.error("Gemini Generation Error:", error);
-    throw error;
+// Only the html is required; missing details fall back to what the caller already has
+function parseGeneratedApp(text: string): GeneratedApp {
+  const raw = parseJson(text) as Record<string, unknown> | null;
+  const appHtml = toText(raw?.html);
+  if (!raw || !appHtml) throw new MalformedResponseError();
+
+  const { html, report } = validateHtml(appHtml);
+  const tags = toTextList(raw.tags).map(tag => tag.toLowerCase().slice(0, MAX_TAG_LENGTH));
+  return {
+    html,
+    validation: report,
+    title: toText(raw.title).slice(0, MAX_TITLE_LENGTH),
+    description: toText(raw.description),
+    tags: [...new Set(tags)].slice(0, MAX_TAGS),
+    notes: toTextList(raw.notes),
+  };
+}
+
+export async function bringToLife(prompt: string, inputs: GenerationInput[] = [], options: GenerateOptions = {}): Promise<GeneratedApp> {
+  const parts = requestParts(prompt, inputs, options.mathGame);
+  if (options.plan) {
+    parts.push({ text: `APPROVED PLAN (reviewed and edited by the user; build exactly this, it overrides your own reading of the inputs):\n\n${planToText(options.plan)}` });
   }
+
+  const text = await streamText({
+    task: 'generate',
+    systemInstruction: options.mathGame ? mathGameInstruction(options.mathGame) : SYSTEM_INSTRUCTION,
+    parts: parts,
+    // Enable Thinking Mode for complex reasoning
+    thinkingBudget: 32768,
+    temperature: 0.5,
+    responseSchema: GENERATION_SCHEMA,
+  }, options, GENERATE_TIMEOUT_MS, stripJsonFences);
+  return parseGeneratedApp(text);
 }
 
-export async function refineApp(currentHtml: string, instruction: string): Promise<string> {
-  try {
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: GEMINI_MODEL,
-      contents: {
-        parts: [
-          { text: "Here is the current existing code:" },
-          { text: currentHtml },
-          { text: `\n\nUSER INSTRUCTION: ${instruction}\n\nReturn the full updated HTML file.` }
-        ]
-      },
-      config: {
-        systemInstruction: REFINE_SYSTEM_INSTRUCTION,
-        thinkingConfig: { thinkingBudget: 8192 }, // Lower budget for quick edits
-        temperature: 0.3,
-      },
-    });
+export async function refineApp(currentHtml: string, instruction: string, options: GenerationOptions = {}): Promise<GeneratedHtml> {
+  return streamHtml({
+    task: 'refine',
+    systemInstruction: REFINE_SYSTEM_INSTRUCTION,
+    parts: [
+      { text: "Here is the current existing code:" },
+      { text: currentHtml },
+      { text: `\n\nUSER INSTRUCTION: ${instruction}\n\nReturn the full updated HTML file.` }
+    ],
+    thinkingBudget: 8192, // Lower budget for quick edits
+    temperature: 0.3,
+  }, options, REFINE_TIMEOUT_MS);
+}
 
-    let text = response.text || currentHtml;
-    text = text.replace(/^```html\s*/, '').replace(/^```\s*/, '').replace(/```$/, '');
-    return text;
-  } catch (error) {
-    console.error("Refinement Error:", error);
-    throw error;
+// A printable worksheet built from a generated game; the original inputs help recover the intended content
+export async function createWorksheet(appHtml: string, inputs: GenerationInput[] = [], mathGame?: MathGameSpec, options: GenerationOptions = {}): Promise<GeneratedHtml> {
+  const parts: ContentPart[] = [
+    { text: "Here is the source code of the app to turn into a worksheet:" },
+    { text: appHtml },
+  ];
+  if (mathGame) {
+    parts.push({ text: `The app was built as a ${describeMathGame(mathGame)} game using numbers from ${mathGame.minNumber} to ${mathGame.maxNumber}.` });
+  }
+  if (inputs.length > 0) {
+    parts.push({ text: `The app was originally made from ${inputs.length > 1 ? `these ${inputs.length} files` : 'this file'}:` });
+    inputs.forEach(input => {
+      if (input.caption) parts.push({ text: input.caption });
+      parts.push({ inlineData: { data: input.data, mimeType: input.mimeType } });
+    });
   }
+  parts.push({ text: "Return the full worksheet HTML file." });
+
+  return streamHtml({
+    task: 'worksheet',
+    systemInstruction: WORKSHEET_SYSTEM_INSTRUCTION,
+    parts,
+    thinkingBudget: 8192,
+    temperature: 0.4,
+  }, options, WORKSHEET_TIMEOUT_MS);
 }
 
-export async function analyzeCode(code: string): Promise<string> {
-  try {
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: GEMINI_MODEL,
-      contents: {
-        parts: [
-          { text: "Please analyze this code and suggest improvements:" },
-          { text: code }
-        ]
-      },
-      config: {
-        systemInstruction: ANALYSIS_SYSTEM_INSTRUCTION,
-        // Enable Thinking Mode for code analysis as well
-        thinkingConfig: { thinkingBudget: 32768 },
-      },
-    });
+// Models occasionally stray from the enums; fall back to neutral values instead of dropping the finding
+function parseFindings(text: string): AnalysisFinding[] {
+  const raw = parseJson(text);
+  const items = (raw as { findings?: unknown })?.findings;
+  if (!Array.isArray(items)) throw new MalformedResponseError();
 
-    return response.text || "No analysis generated.";
-  } catch (error) {
-    console.error("Analysis Error:", error);
-    return "Failed to analyze code. Please try again.";
-  }
-}
\ No newline at end of file
+  return items
+    .filter((item): item is Record<string, unknown> => typeof item === 'object' && item !== null)
+    .filter(item => typeof item.title === 'string' && typeof item.fix === 'string')
+    .map((item, i) => ({
+      id: `finding-${i + 1}`,
+      category: FINDING_CATEGORIES.includes(item.category as FindingCategory) ? item.category as FindingCategory : 'code-quality',
+      severity: FINDING_SEVERITIES.includes(item.severity as FindingSeverity) ? item.severity as FindingSeverity : 'medium',
+      title: item.title as string,
+      description: typeof item.description === 'string' ? item.description : '',
+      snippet: typeof item.snippet === 'string' ? item.snippet : '',
+      fix: item.fix as string,
+    }));
+}
+
+export async function analyzeCode(code: string, options: GenerationOptions = {}): Promise<AnalysisFinding[]> {
+  const text = await streamText({
+    task: 'analyze',
+    systemInstruction: ANALYSIS_SYSTEM_INSTRUCTION,
+    parts: [
+      { text: "Please analyze this code and suggest improvements:" },
+      { text: code }
+    ],
+    // Enable Thinking Mode for code analysis as well
+    thinkingBudget: 32768,
+    responseSchema: FINDINGS_SCHEMA,
+  }, options, ANALYZE_TIMEOUT_MS, stripJsonFences);
+  return parseFindings(text);
+}
+
+// Turn a finding into a targeted refinement, so applying it only touches the affected code
+export function findingInstruction(finding: AnalysisFinding): string {
+  let instruction = `Fix this ${finding.severity} ${finding.category} issue: ${finding.title}.`;
+  if (finding.description) instruction += ` ${finding.description}`;
+  instruction += `\nSuggested fix: ${finding.fix}`;
+  if (finding.snippet) instruction += `\nAffected code:\n${finding.snippet}`;
+  return `${instruction}\nLeave everything else unchanged.`;
+}
+
+// Describe errors captured from the running preview so the model can fix them in place
+export function runtimeErrorsInstruction(errors: PreviewError[]): string {
+  const lines = errors.map((error, i) => {
+    const location = error.line ? ` (line ${error.line}${error.column ? `, column ${error.column}` : ''})` : '';
+    const repeats = error.count > 1 ? ` [occurred ${error.count} times]` : '';
+    const stack = error.stack ? `\n   Stack: ${error.stack.split('\n').slice(0, 4).join(' | ')}` : '';
+    return `${i + 1}. [${error.kind}] ${error.message}${location}${repeats}${stack}`;
+  });
+  return `The app reports these runtime errors while running in the browser:\n${lines.join('\n')}\n\nFind and fix their root causes. Keep the app's features and look unchanged.`;
+}
@@ -0,0 +1,64 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { GoogleGenAI } from "@google/genai";
+import { ModelProvider, ModelRequest, ModelChunk } from './provider';
+import { AuthError, SafetyError } from './errors';
+
+// Using gemini-3-pro-preview for complex tasks with thinking.
+const GEMINI_MODEL = process.env.GEMINI_MODEL || 'gemini-3-pro-preview';
+
+// Finish reasons meaning the response was withheld rather than completed
+const BLOCKED_FINISH_REASONS = new Set(['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY']);
+
+let client: GoogleGenAI | null = null;
+
+// Created on first use so the app still loads on other providers without an API key
+const getClient = (): GoogleGenAI => {
+  if (!process.env.API_KEY) throw new AuthError();
+  if (!client) {
+    client = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  }
+  return client;
+};
+
+export const geminiProvider: ModelProvider = {
+  id: 'gemini',
+  label: 'Gemini 3 Thinking Mode',
+
+  async stream(request: ModelRequest, signal?: AbortSignal): Promise<AsyncIterable<ModelChunk>> {
+    const stream = await getClient().models.generateContentStream({
+      model: GEMINI_MODEL,
+      contents: {
+        parts: request.parts
+      },
+      config: {
+        systemInstruction: request.systemInstruction,
+        thinkingConfig: request.thinkingBudget
+          ? { thinkingBudget: request.thinkingBudget, includeThoughts: true }
+          : undefined,
+        temperature: request.temperature,
+        responseMimeType: request.responseSchema ? 'application/json' : undefined,
+        responseJsonSchema: request.responseSchema,
+        abortSignal: signal,
+      },
+    });
+
+    return (async function* () {
+      for await (const chunk of stream) {
+        const blockReason = chunk.promptFeedback?.blockReason;
+        if (blockReason) throw new SafetyError(blockReason);
+        const finishReason = chunk.candidates?.[0]?.finishReason;
+        if (finishReason && BLOCKED_FINISH_REASONS.has(finishReason)) throw new SafetyError(finishReason);
+
+        const parts = chunk.candidates?.[0]?.content?.parts ?? [];
+        yield {
+          thoughts: parts.filter(p => p.thought && p.text).map(p => p.text as string),
+          text: parts.filter(p => !p.thought && p.text).map(p => p.text).join(''),
+          tokenCount: chunk.usageMetadata?.candidatesTokenCount,
+        };
+      }
+    })();
+  },
+};
@@ -0,0 +1,114 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Syntax highlighting for the code editor: html with embedded <style> and <script>, turned
+// into escaped markup with coloured spans. Regex based, so it tolerates the half-typed code
+// an editor always contains, at the cost of not understanding every corner of the languages.
+
+const escapeHtml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const span = (className: string, text: string) => `<span class="${className}">${escapeHtml(text)}</span>`;
+
+const COLORS = {
+  comment: 'text-zinc-500 italic',
+  string: 'text-emerald-300',
+  number: 'text-amber-300',
+  keyword: 'text-purple-400',
+  function: 'text-blue-300',
+  tag: 'text-rose-400',
+  attribute: 'text-orange-300',
+  punctuation: 'text-zinc-500',
+  atRule: 'text-purple-400',
+  property: 'text-sky-300',
+};
+
+// Every capture group is top level, and its class is the entry at the same position
+function tokenize(code: string, pattern: RegExp, classes: string[]): string {
+  let out = '';
+  let last = 0;
+  for (const match of code.matchAll(pattern)) {
+    const index = match.index ?? 0;
+    const group = match.findIndex((value, i) => i > 0 && value !== undefined);
+    if (group === -1) continue;
+    out += escapeHtml(code.slice(last, index)) + span(classes[group - 1], match[0]);
+    last = index + match[0].length;
+  }
+  return out + escapeHtml(code.slice(last));
+}
+
+const JS_KEYWORDS = 'async|await|break|case|catch|class|const|continue|default|delete|do|else|export|extends|false|finally|for|function|if|import|in|instanceof|let|new|null|of|return|static|super|switch|this|throw|true|try|typeof|undefined|var|void|while|yield';
+
+const JS_PATTERN = new RegExp([
+  /(\/\/[^\n]*|\/\*[\s\S]*?(?:\*\/|$))/.source,
+  /("(?:[^"\\\n]|\\.)*"?|'(?:[^'\\\n]|\\.)*'?|`(?:[^`\\]|\\[\s\S])*`?)/.source,
+  /(\b(?:0x[\da-fA-F]+|\d[\d_]*(?:\.\d+)?(?:[eE][+-]?\d+)?)\b)/.source,
+  `(\\b(?:${JS_KEYWORDS})\\b)`,
+  /([A-Za-z_$][\w$]*(?=\s*\())/.source,
+].join('|'), 'g');
+
+const CSS_PATTERN = new RegExp([
+  /(\/\*[\s\S]*?(?:\*\/|$))/.source,
+  /("[^"\n]*"?|'[^'\n]*'?)/.source,
+  /(@[\w-]+)/.source,
+  // A name followed by a colon and a value ending in ; or } is a property, unlike a:hover {
+  /([\w-]+(?=\s*:[^{};]*[;}]))/.source,
+  /(#[\da-fA-F]{3,8}\b|-?\d*\.?\d+(?:%|[a-zA-Z]+)?)/.source,
+].join('|'), 'g');
+
+export const highlightJs = (code: string) =>
+  tokenize(code, JS_PATTERN, [COLORS.comment, COLORS.string, COLORS.number, COLORS.keyword, COLORS.function]);
+
+export const highlightCss = (code: string) =>
+  tokenize(code, CSS_PATTERN, [COLORS.comment, COLORS.string, COLORS.atRule, COLORS.property, COLORS.number]);
+
+const ATTRIBUTE_PATTERN = /([^\s"'<>\/=]+)|(=|\/)|("[^"]*"?|'[^']*'?)/g;
+
+const highlightTag = (tag: string) =>
+  tokenize(tag, ATTRIBUTE_PATTERN, [COLORS.attribute, COLORS.punctuation, COLORS.string]);
+
+// Comments, doctypes and tags (up to their closing > or the end of the document)
+const MARKUP_PATTERN = /<!--[\s\S]*?(?:-->|$)|<!doctype[^>]*>?|<(\/?)([a-zA-Z][\w:-]*)((?:"[^"]*"?|'[^']*'?|[^'">])*)(>?)/gi;
+
+// Marks for find results, drawn in a layer under the highlighted code
+export function highlightMatches(code: string, matches: number[], length: number, active: number): string {
+  let out = '';
+  let last = 0;
+  matches.forEach((start, i) => {
+    out += escapeHtml(code.slice(last, start));
+    out += `<mark class="rounded-sm text-transparent ${i === active ? 'bg-yellow-400/60' : 'bg-yellow-400/20'}">${escapeHtml(code.slice(start, start + length))}</mark>`;
+    last = start + length;
+  });
+  return out + escapeHtml(code.slice(last));
+}
+
+export function highlightHtml(html: string): string {
+  let out = '';
+  let last = 0;
+  MARKUP_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = MARKUP_PATTERN.exec(html))) {
+    out += escapeHtml(html.slice(last, match.index));
+    const [whole, slash, name, attributes, close] = match;
+    last = match.index + whole.length;
+
+    if (name === undefined) {
+      out += span(COLORS.comment, whole);
+      continue;
+    }
+    out += span(COLORS.punctuation, `<${slash}`) + span(COLORS.tag, name) + highlightTag(attributes) + span(COLORS.punctuation, close);
+
+    // Style and script bodies are highlighted in their own language up to the closing tag
+    const lowerName = name.toLowerCase();
+    if (!slash && close && (lowerName === 'script' || lowerName === 'style')) {
+      const end = html.toLowerCase().indexOf(`</${lowerName}`, last);
+      const bodyEnd = end === -1 ? html.length : end;
+      const body = html.slice(last, bodyEnd);
+      out += lowerName === 'script' ? highlightJs(body) : highlightCss(body);
+      last = bodyEnd;
+      MARKUP_PATTERN.lastIndex = bodyEnd;
+    }
+  }
+  return out + escapeHtml(html.slice(last));
+}
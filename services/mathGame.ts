@@ -0,0 +1,109 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Structured description of a math game, filled in through the math game form and kept on
+// the creation so the same game can be regenerated or re-leveled later.
+
+export const MATH_OPERATIONS = ['addition', 'subtraction', 'multiplication', 'division', 'fractions', 'geometry'] as const;
+export type MathOperation = typeof MATH_OPERATIONS[number];
+
+export const DIFFICULTY_CURVES = ['steady', 'gradual', 'steep', 'adaptive'] as const;
+export type DifficultyCurve = typeof DIFFICULTY_CURVES[number];
+
+export const GAME_MECHANICS = ['quiz', 'race', 'puzzle', 'arcade', 'adventure', 'memory'] as const;
+export type GameMechanic = typeof GAME_MECHANICS[number];
+
+export interface MathGameSpec {
+  grade: number; // 0 is kindergarten, up to MAX_GRADE
+  operations: MathOperation[];
+  minNumber: number; // Smallest operand used in problems
+  maxNumber: number; // Largest operand used in problems
+  difficulty: DifficultyCurve;
+  rounds: number;
+  mechanic: GameMechanic;
+}
+
+export const MAX_GRADE = 8;
+export const MAX_ROUNDS = 50;
+export const MAX_NUMBER = 1_000_000;
+
+export const DEFAULT_MATH_GAME_SPEC: MathGameSpec = {
+  grade: 3,
+  operations: ['addition', 'subtraction'],
+  minNumber: 0,
+  maxNumber: 20,
+  difficulty: 'gradual',
+  rounds: 10,
+  mechanic: 'quiz',
+};
+
+export const OPERATION_LABELS: Record<MathOperation, string> = {
+  addition: 'Addition',
+  subtraction: 'Subtraction',
+  multiplication: 'Multiplication',
+  division: 'Division',
+  fractions: 'Fractions',
+  geometry: 'Geometry',
+};
+
+export const DIFFICULTY_LABELS: Record<DifficultyCurve, { label: string, description: string }> = {
+  steady: { label: 'Steady', description: 'Every round is equally hard' },
+  gradual: { label: 'Gradual', description: 'Slowly harder across the rounds' },
+  steep: { label: 'Steep', description: 'Quickly ramps up to the hardest problems' },
+  adaptive: { label: 'Adaptive', description: 'Follows how well the player is doing' },
+};
+
+export const MECHANIC_LABELS: Record<GameMechanic, { label: string, description: string }> = {
+  quiz: { label: 'Quiz', description: 'Multiple choice questions' },
+  race: { label: 'Race', description: 'Answer fast to move ahead' },
+  puzzle: { label: 'Puzzle', description: 'Solve problems to unlock pieces' },
+  arcade: { label: 'Arcade', description: 'Catch or hit the right answers' },
+  adventure: { label: 'Adventure', description: 'Problems guard a journey map' },
+  memory: { label: 'Memory', description: 'Match problems to their answers' },
+};
+
+export const gradeLabel = (grade: number) => (grade === 0 ? 'Kindergarten' : `Grade ${grade}`);
+
+// Empty when the spec can be generated; otherwise what has to be fixed first
+export function mathGameProblems(spec: MathGameSpec): string[] {
+  const problems: string[] = [];
+  if (spec.operations.length === 0) problems.push('Pick at least one operation.');
+  if (!Number.isInteger(spec.minNumber) || !Number.isInteger(spec.maxNumber)) problems.push('Number ranges must be whole numbers.');
+  else if (Math.abs(spec.minNumber) > MAX_NUMBER || Math.abs(spec.maxNumber) > MAX_NUMBER) problems.push(`Numbers must stay within ±${MAX_NUMBER.toLocaleString()}.`);
+  else if (spec.minNumber >= spec.maxNumber) problems.push('The smallest number must be below the largest.');
+  if (!Number.isInteger(spec.rounds) || spec.rounds < 1 || spec.rounds > MAX_ROUNDS) problems.push(`Rounds must be between 1 and ${MAX_ROUNDS}.`);
+  return problems;
+}
+
+// Short summary used to name the creation and to label regenerated versions
+export function describeMathGame(spec: MathGameSpec): string {
+  const operations = spec.operations.map(op => OPERATION_LABELS[op].toLowerCase());
+  const topic = operations.length > 2 ? 'mixed operations' : operations.join(' & ');
+  return `${gradeLabel(spec.grade)} ${topic} ${MECHANIC_LABELS[spec.mechanic].label.toLowerCase()}`;
+}
+
+const clamp = (value: unknown, min: number, max: number, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, Math.round(value))) : fallback;
+
+const pick = <T extends string>(value: unknown, options: readonly T[], fallback: T): T =>
+  options.includes(value as T) ? value as T : fallback;
+
+// Reads a spec from an imported artifact, filling in anything missing or invalid
+export function toMathGameSpec(value: unknown): MathGameSpec | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  const raw = value as Record<string, unknown>;
+  const operations = Array.isArray(raw.operations)
+    ? MATH_OPERATIONS.filter(op => (raw.operations as unknown[]).includes(op))
+    : [];
+  return {
+    grade: clamp(raw.grade, 0, MAX_GRADE, DEFAULT_MATH_GAME_SPEC.grade),
+    operations: operations.length > 0 ? operations : DEFAULT_MATH_GAME_SPEC.operations,
+    minNumber: clamp(raw.minNumber, -MAX_NUMBER, MAX_NUMBER, DEFAULT_MATH_GAME_SPEC.minNumber),
+    maxNumber: clamp(raw.maxNumber, -MAX_NUMBER, MAX_NUMBER, DEFAULT_MATH_GAME_SPEC.maxNumber),
+    difficulty: pick(raw.difficulty, DIFFICULTY_CURVES, DEFAULT_MATH_GAME_SPEC.difficulty),
+    rounds: clamp(raw.rounds, 1, MAX_ROUNDS, DEFAULT_MATH_GAME_SPEC.rounds),
+    mechanic: pick(raw.mechanic, GAME_MECHANICS, DEFAULT_MATH_GAME_SPEC.mechanic),
+  };
+}
@@ -0,0 +1,217 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ModelProvider, ModelRequest, ModelChunk, ContentPart } from './provider';
+import { sleep } from './retry';
+
+// Deterministic offline stand-in for a real model. Every response depends only on the
+// request, so the full plan → generate → refine → analyze flow can be exercised without a network.
+
+const CHUNK_SIZE = 240;
+const CHUNK_DELAY_MS = 40;
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const textParts = (parts: ContentPart[]): string[] =>
+  parts.flatMap(p => ('text' in p ? [p.text] : []));
+
+const describeInput = (request: ModelRequest): string => {
+  const files = request.parts.filter(p => 'inlineData' in p).length;
+  return files > 0 ? `${files} attached file${files > 1 ? 's' : ''}` : 'a text prompt';
+};
+
+// The first text part is the prompt; any later ones are per-file captions
+const mockTitle = (request: ModelRequest): string => {
+  const prompt = textParts(request.parts)[0] ?? '';
+  const userRequest = prompt.match(/USER REQUEST \/ CONTEXT: ([\s\S]*)/)?.[1] ?? prompt;
+  return userRequest.trim().split(/\s+/).slice(0, 6).join(' ') || 'Mock App';
+};
+
+function mockAppHtml(request: ModelRequest): string {
+  const title = escapeHtml(mockTitle(request));
+  // An approved plan's features show up in the app so the plan-then-build flow is visible
+  const planFeatures = textParts(request.parts).find(t => t.startsWith('APPROVED PLAN'))
+    ?.match(/FEATURES:\n([\s\S]*?)(?:\n\n|$)/)?.[1].split('\n').map(line => line.replace(/^- /, '')) ?? [];
+  const featureList = planFeatures.length > 0
+    ? `\n    <ul class="note">${planFeatures.map(feature => `<li>${escapeHtml(feature)}</li>`).join('')}</ul>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${title}</title>
+  <style>
+    body { margin: 0; min-height: 100vh; display: flex; align-items: center; justify-content: center; font-family: system-ui, sans-serif; background: linear-gradient(135deg, #1e3a8a, #6d28d9); color: #fff; }
+    .card { text-align: center; padding: 2rem 3rem; background: rgba(0,0,0,0.25); border-radius: 1rem; }
+    button { font-size: 2rem; padding: 0.75rem 1.5rem; border: none; border-radius: 0.75rem; cursor: pointer; }
+    .note { opacity: 0.7; font-size: 0.8rem; margin-top: 1rem; }
+  </style>
+</head>
+<body>
+  <div class="card">
+    <h1>${title}</h1>
+    <p>Score: <strong id="score">0</strong></p>
+    <button id="tap">⭐ Tap</button>${featureList}
+    <p class="note">Offline mock generated from ${describeInput(request)}.</p>
+  </div>
+  <script>
+    let score = 0;
+    window.gameEvents?.start();
+    document.getElementById('tap').addEventListener('click', () => {
+      score += 1;
+      document.getElementById('score').textContent = score;
+      window.gameEvents?.score(score);
+    });
+  </script>
+</body>
+</html>`;
+}
+
+// Answers in the structured app format requested by bringToLife
+function mockGeneratedApp(request: ModelRequest): string {
+  const app = {
+    title: mockTitle(request),
+    description: `A tap-to-score mini game standing in for an app made from ${describeInput(request)}.`,
+    tags: ['mock', 'game'],
+    notes: ['Produced by the offline mock provider; the input was not actually read.'],
+    html: mockAppHtml(request),
+  };
+  return JSON.stringify(app, null, 2);
+}
+
+function mockRefinedApp(request: ModelRequest): string {
+  const texts = textParts(request.parts);
+  const currentHtml = texts.find(t => /<html[\s>]/i.test(t)) ?? mockAppHtml(request);
+  const instruction = texts.join('\n').match(/USER INSTRUCTION: ([\s\S]*?)\n\nReturn/)?.[1] ?? 'refinement';
+  const banner = `<div data-mock-refinement style="position:fixed;bottom:8px;left:8px;padding:4px 8px;background:#111;color:#fff;font:12px monospace;border-radius:4px">Applied: ${escapeHtml(instruction)}</div>`;
+
+  return currentHtml.includes('</body>')
+    ? currentHtml.replace('</body>', `  ${banner}\n</body>`)
+    : currentHtml + banner;
+}
+
+// A small addition worksheet whose problems depend only on the size of the request
+function mockWorksheet(request: ModelRequest): string {
+  const seed = textParts(request.parts).join('').length;
+  const problems = Array.from({ length: 12 }, (_, i) => [(seed + i * 7) % 20, (seed * 3 + i * 5) % 20]);
+  const items = (render: (a: number, b: number) => string) =>
+    problems.map(([a, b]) => `      <li>${render(a, b)}</li>`).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <title>Practice Worksheet</title>
+  <style>
+    @page { size: auto; margin: 15mm; }
+    body { font-family: Georgia, serif; font-size: 14pt; color: #000; }
+    .page { max-width: 180mm; margin: 0 auto; }
+    .fields { display: flex; gap: 24pt; margin: 12pt 0; }
+    ol { columns: 2; column-gap: 24pt; }
+    li { break-inside: avoid; margin-bottom: 18pt; }
+    .answer-key { break-before: page; }
+    .note { font-size: 9pt; color: #555; }
+    @media screen { body { background: #e5e5e5; } .page { background: #fff; padding: 15mm; margin: 10mm auto; } }
+  </style>
+</head>
+<body>
+  <div class="page">
+    <h1>Practice Worksheet</h1>
+    <div class="fields"><span>Name: ______________________</span><span>Date: __________</span></div>
+    <p>Solve each problem and write your answer on the line.</p>
+    <ol>
+${items((a, b) => `${a} + ${b} = ________`)}
+    </ol>
+    <p class="note">Offline mock worksheet generated from ${describeInput(request)}.</p>
+  </div>
+  <section class="answer-key page">
+    <h2>Answer Key</h2>
+    <ol>
+${items((a, b) => `${a + b}`)}
+    </ol>
+  </section>
+</body>
+</html>`;
+}
+
+// Answers in the structured plan format requested by planApp
+function mockPlan(request: ModelRequest): string {
+  const prompt = textParts(request.parts)[0] ?? '';
+  // Without files the prompt is the request itself; with them it follows the default instruction
+  const hasFiles = request.parts.some(p => 'inlineData' in p);
+  const userRequest = (prompt.match(/USER REQUEST \/ CONTEXT: ([\s\S]*)/)?.[1] ?? (hasFiles ? '' : prompt)).trim();
+  const plan = {
+    observations: `Offline mock reading of ${describeInput(request)}; nothing was actually inspected.`,
+    concept: userRequest ? `A small interactive app for: ${userRequest}` : 'A tap-to-score mini game.',
+    features: ['Tap button that adds a point', 'Running score display', 'Score reported to the leaderboard'],
+    controls: ['Click or tap the button'],
+    layout: 'A single centered card on a gradient background.',
+  };
+  return JSON.stringify(plan, null, 2);
+}
+
+// Answers in the structured findings format requested by analyzeCode
+function mockAnalysis(request: ModelRequest): string {
+  const code = textParts(request.parts).find(t => /<html[\s>]/i.test(t)) ?? '';
+  const lines = code.split('\n');
+  const quote = (pattern: RegExp) => lines.find(line => pattern.test(line))?.trim() ?? '';
+  const findings = [
+    {
+      category: 'accessibility',
+      severity: 'medium',
+      title: 'Buttons need descriptive labels',
+      description: 'Screen readers announce only the visible text, which may not explain what the button does.',
+      snippet: quote(/<button/i),
+      fix: 'Add an aria-label describing the action to every button.',
+    },
+    {
+      category: 'best-practice',
+      severity: 'low',
+      title: 'Prefer const for bindings that never change',
+      description: 'Using let for values that are never reassigned hides intent.',
+      snippet: quote(/\blet\b/),
+      fix: 'Replace let with const where the variable is not reassigned.',
+    },
+    {
+      category: 'code-quality',
+      severity: 'low',
+      title: `Single file of ${lines.length} lines`,
+      description: 'Produced by the offline mock provider; no real review was performed.',
+      snippet: '',
+      fix: 'Add a short comment at the top of the script describing the app.',
+    },
+  ];
+  return JSON.stringify({ findings }, null, 2);
+}
+
+const RESPONSES: Record<ModelRequest['task'], (request: ModelRequest) => string> = {
+  generate: mockGeneratedApp,
+  plan: mockPlan,
+  refine: mockRefinedApp,
+  analyze: mockAnalysis,
+  worksheet: mockWorksheet,
+};
+
+export const mockProvider: ModelProvider = {
+  id: 'mock',
+  label: 'Offline Mock',
+
+  async stream(request: ModelRequest, signal?: AbortSignal): Promise<AsyncIterable<ModelChunk>> {
+    const output = RESPONSES[request.task](request);
+
+    return (async function* () {
+      await sleep(CHUNK_DELAY_MS, signal);
+      yield { thoughts: [`**Reading the ${request.task} request**\n\nWorking from ${describeInput(request)}.`], text: '' };
+
+      for (let i = 0; i < output.length; i += CHUNK_SIZE) {
+        await sleep(CHUNK_DELAY_MS, signal);
+        const end = Math.min(i + CHUNK_SIZE, output.length);
+        yield { thoughts: [], text: output.slice(i, end), tokenCount: Math.ceil(end / 4) };
+      }
+    })();
+  },
+};
@@ -0,0 +1,48 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// The structured plan of the optional plan-then-build flow: the model describes what it
+// would build, the user corrects it, and only the approved plan is turned into html. It is
+// kept on the creation so the app can be rebuilt from an edited plan later.
+
+export interface AppPlan {
+  observations: string; // What the model sees in the inputs and prompt
+  concept: string; // The app in a sentence or two
+  features: string[];
+  controls: string[]; // How the user interacts: buttons, keys, gestures
+  layout: string; // Where things go on screen
+}
+
+export const isPlanComplete = (plan: AppPlan) => !!plan.concept.trim() && plan.features.length > 0;
+
+const toText = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+const toList = (value: unknown) =>
+  Array.isArray(value) ? value.map(toText).filter(Boolean) : [];
+
+// Reads a plan from a model response or an imported artifact; undefined when there's no concept
+export function toAppPlan(value: unknown): AppPlan | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  const raw = value as Record<string, unknown>;
+  const plan = {
+    observations: toText(raw.observations),
+    concept: toText(raw.concept),
+    features: toList(raw.features),
+    controls: toList(raw.controls),
+    layout: toText(raw.layout),
+  };
+  return plan.concept ? plan : undefined;
+}
+
+// The plan as the generation prompt states it
+export function planToText(plan: AppPlan): string {
+  const list = (items: string[]) => items.map(item => `- ${item}`).join('\n');
+  return [
+    plan.observations && `WHAT THE INPUT SHOWS:\n${plan.observations}`,
+    `CONCEPT:\n${plan.concept}`,
+    `FEATURES:\n${list(plan.features)}`,
+    plan.controls.length > 0 && `CONTROLS:\n${list(plan.controls)}`,
+    plan.layout && `LAYOUT:\n${plan.layout}`,
+  ].filter(Boolean).join('\n\n');
+}
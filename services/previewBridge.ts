@@ -0,0 +1,100 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// A tiny script injected into the preview iframe that forwards runtime problems to the
+// host page with postMessage, so errors surface without opening devtools.
+
+export const BRIDGE_SOURCE = 'bring-to-life-preview';
+
+export type PreviewErrorKind = 'error' | 'rejection' | 'console' | 'resource';
+
+export interface PreviewErrorMessage {
+  source: typeof BRIDGE_SOURCE;
+  type: 'runtime-error';
+  kind: PreviewErrorKind;
+  message: string;
+  stack?: string;
+  line?: number; // 1-based, in the generated html
+  column?: number;
+}
+
+export interface PreviewError extends Omit<PreviewErrorMessage, 'source' | 'type'> {
+  id: string;
+  count: number; // Identical errors (e.g. thrown every animation frame) are folded together
+  timestamp: Date;
+}
+
+// Kept on a single line and inserted right after <head> so line numbers reported by the
+// browser still match the generated html. Every statement must end with a semicolon.
+const BRIDGE_SCRIPT = `
+(function () {
+  var send = function (kind, message, detail) {
+    detail = detail || {};
+    try {
+      parent.postMessage({
+        source: '${BRIDGE_SOURCE}',
+        type: 'runtime-error',
+        kind: kind,
+        message: String(message).slice(0, 2000),
+        stack: detail.stack ? String(detail.stack).slice(0, 4000) : undefined,
+        line: detail.line || undefined,
+        column: detail.column || undefined
+      }, '*');
+    } catch (e) {}
+  };
+  var describe = function (value) {
+    if (value instanceof Error) return value.message;
+    if (typeof value === 'object') { try { return JSON.stringify(value); } catch (e) {} }
+    return String(value);
+  };
+  window.addEventListener('error', function (e) {
+    var target = e.target;
+    if (target && target !== window && (target.src || target.href)) {
+      send('resource', 'Failed to load ' + (target.src || target.href));
+      return;
+    }
+    send('error', e.message || 'Script error', { stack: e.error && e.error.stack, line: e.lineno, column: e.colno });
+  }, true);
+  window.addEventListener('unhandledrejection', function (e) {
+    var reason = e.reason;
+    send('rejection', 'Unhandled promise rejection: ' + describe(reason), { stack: reason && reason.stack });
+  });
+  var originalError = console.error;
+  console.error = function () {
+    send('console', Array.prototype.map.call(arguments, describe).join(' '));
+    return originalError.apply(console, arguments);
+  };
+})();
+`.replace(/\n\s*/g, '');
+
+const MAX_ERRORS = 50;
+
+// Insert markup at the very start of <head> without adding line breaks. Later injections
+// land before earlier ones.
+export function injectIntoHead(html: string, markup: string): string {
+  const anchor = html.match(/<head(\s[^>]*)?>/i) ?? html.match(/<html(\s[^>]*)?>/i) ?? html.match(/<!doctype[^>]*>/i);
+  if (!anchor || anchor.index === undefined) return markup + html;
+  const end = anchor.index + anchor[0].length;
+  return html.slice(0, end) + markup + html.slice(end);
+}
+
+export function injectBridge(html: string): string {
+  return injectIntoHead(html, `<script data-preview-bridge>${BRIDGE_SCRIPT}</script>`);
+}
+
+export function isPreviewErrorMessage(data: unknown): data is PreviewErrorMessage {
+  const message = data as PreviewErrorMessage | null;
+  return message?.source === BRIDGE_SOURCE && message.type === 'runtime-error' && typeof message.message === 'string';
+}
+
+// Fold a new report into the list, counting repeats of the same error
+export function addPreviewError(errors: PreviewError[], report: PreviewErrorMessage): PreviewError[] {
+  const existing = errors.find(e => e.kind === report.kind && e.message === report.message && e.line === report.line);
+  if (existing) {
+    return errors.map(e => (e === existing ? { ...e, count: e.count + 1, timestamp: new Date() } : e));
+  }
+  const { source, type, ...details } = report;
+  return [...errors, { ...details, id: crypto.randomUUID(), count: 1, timestamp: new Date() }].slice(-MAX_ERRORS);
+}
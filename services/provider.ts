@@ -0,0 +1,68 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { geminiProvider } from './geminiProvider';
+import { mockProvider } from './mockProvider';
+
+export type ModelTask = 'generate' | 'plan' | 'refine' | 'analyze' | 'worksheet';
+
+export type ContentPart =
+  | { text: string }
+  | { inlineData: { data: string; mimeType: string } };
+
+export interface ModelRequest {
+  task: ModelTask; // Lets fixture providers answer sensibly without parsing prompts
+  systemInstruction: string;
+  parts: ContentPart[];
+  thinkingBudget?: number;
+  temperature?: number;
+  responseSchema?: object; // JSON Schema; when set the response must be a JSON document matching it
+}
+
+export interface ModelChunk {
+  thoughts: string[]; // Thought summaries contained in this chunk
+  text: string; // Output text contained in this chunk
+  tokenCount?: number; // Cumulative output tokens, when the backend reports them
+}
+
+export interface ModelProvider {
+  id: ProviderId;
+  label: string;
+  // Resolves once the backend has accepted the request, then yields chunks as they arrive.
+  // Aborting the signal must reject the pending promise or end the iteration with an AbortError.
+  stream: (request: ModelRequest, signal?: AbortSignal) => Promise<AsyncIterable<ModelChunk>>;
+}
+
+export type ProviderId = 'gemini' | 'mock';
+
+const PROVIDERS: Record<ProviderId, ModelProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider,
+};
+
+const PROVIDER_STORAGE_KEY = 'model_provider';
+
+const isProviderId = (value: unknown): value is ProviderId =>
+  typeof value === 'string' && value in PROVIDERS;
+
+export function listProviders(): ModelProvider[] {
+  return Object.values(PROVIDERS);
+}
+
+// Resolution order: user choice in this browser, then MODEL_PROVIDER from the environment.
+// Without either, fall back to the offline mock when no API key is configured.
+export function getProviderId(): ProviderId {
+  const stored = localStorage.getItem(PROVIDER_STORAGE_KEY);
+  if (isProviderId(stored)) return stored;
+  if (isProviderId(process.env.MODEL_PROVIDER)) return process.env.MODEL_PROVIDER;
+  return process.env.API_KEY ? 'gemini' : 'mock';
+}
+
+export function setProviderId(id: ProviderId) {
+  localStorage.setItem(PROVIDER_STORAGE_KEY, id);
+}
+
+export function getProvider(): ModelProvider {
+  return PROVIDERS[getProviderId()];
+}
@@ -0,0 +1,86 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { AppError, TimeoutError } from './errors';
+
+export interface RetryOptions {
+  signal?: AbortSignal; // Cancels the current attempt and any pending retries
+  timeoutMs: number; // Per attempt
+  maxAttempts?: number;
+  onRetry?: (attempt: number, error: unknown) => void; // attempt is 1-based, for the attempt about to start
+}
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 16000;
+
+// Rate limits, server errors and dropped connections are worth another try; bad requests are not
+const RETRYABLE_STATUS = new Set([408, 429, 500, 502, 503, 504]);
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+export function abortError(): DOMException {
+  return new DOMException('The operation was aborted', 'AbortError');
+}
+
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof AppError) return error.retryable;
+  const status = (error as { status?: unknown })?.status;
+  if (typeof status === 'number') return RETRYABLE_STATUS.has(status);
+  // fetch() rejects with a TypeError when the network is unreachable
+  return error instanceof TypeError && /fetch|network/i.test(error.message);
+}
+
+// Exponential backoff with a little jitter so parallel retries spread out
+export function backoffDelay(attempt: number): number {
+  const delay = Math.min(BASE_DELAY_MS * 2 ** (attempt - 1), MAX_DELAY_MS);
+  return delay + Math.random() * 250;
+}
+
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timeout);
+      reject(abortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Run fn with a per-attempt timeout, retrying retryable failures with exponential backoff.
+// Each attempt gets its own signal that fires on either the caller's abort or the timeout.
+export async function withRetry<T>(fn: (signal: AbortSignal) => Promise<T>, options: RetryOptions): Promise<T> {
+  const { signal, timeoutMs, maxAttempts = DEFAULT_MAX_ATTEMPTS, onRetry } = options;
+
+  for (let attempt = 1; ; attempt++) {
+    if (signal?.aborted) throw abortError();
+
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+    const timeout = setTimeout(() => controller.abort(new TimeoutError(timeoutMs)), timeoutMs);
+
+    try {
+      return await fn(controller.signal);
+    } catch (error) {
+      if (signal?.aborted) throw abortError();
+      const failure = controller.signal.reason instanceof TimeoutError ? controller.signal.reason : error;
+      if (attempt >= maxAttempts || !isRetryableError(failure)) throw failure;
+
+      console.warn(`Attempt ${attempt} failed, retrying`, failure);
+      await sleep(backoffDelay(attempt), signal);
+      onRetry?.(attempt + 1, failure);
+    } finally {
+      clearTimeout(timeout);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { injectIntoHead } from './previewBridge';
+
+// Generated apps run in a sandboxed iframe that never gets allow-same-origin, so they
+// can't read this app's storage or cookies. A Content-Security-Policy injected into the
+// document additionally cuts off the network unless the user grants it per creation.
+
+export interface SandboxPermissions {
+  popups: boolean; // window.open and target="_blank" links
+  forms: boolean; // Form submission
+  modals: boolean; // alert, confirm and prompt
+  network: boolean; // fetch/XHR and remote images, fonts, styles and scripts
+}
+
+export const DEFAULT_PERMISSIONS: SandboxPermissions = {
+  popups: false,
+  // Many generated apps rely on forms and dialogs. Submitting a form off the page counts as network
+  // access, so the CSP keeps form actions inside the frame unless network is granted.
+  forms: true,
+  modals: true,
+  network: false,
+};
+
+// Whether stored or imported permissions ask for anything the defaults don't give
+export const grantsExtraAccess = (permissions: unknown): boolean =>
+  typeof permissions === 'object' && permissions !== null
+    && (Object.keys(DEFAULT_PERMISSIONS) as (keyof SandboxPermissions)[])
+      .some(key => (permissions as Partial<SandboxPermissions>)[key] === true && !DEFAULT_PERMISSIONS[key]);
+
+export const PERMISSION_OPTIONS: { key: keyof SandboxPermissions, label: string, description: string }[] = [
+  { key: 'popups', label: 'Popups', description: 'Open new windows and tabs' },
+  { key: 'forms', label: 'Forms', description: 'Submit forms; sending them to other sites also needs Network' },
+  { key: 'modals', label: 'Dialogs', description: 'Use alert, confirm and prompt' },
+  { key: 'network', label: 'Network', description: 'Load remote content and call web APIs' },
+];
+
+// The system instruction allows Tailwind from its CDN, so it loads even without network access
+const ALWAYS_ALLOWED_SCRIPTS = 'https://cdn.tailwindcss.com';
+
+export function sandboxAttribute(permissions: SandboxPermissions = DEFAULT_PERMISSIONS): string {
+  return [
+    'allow-scripts',
+    permissions.forms && 'allow-forms',
+    permissions.popups && 'allow-popups',
+    permissions.modals && 'allow-modals',
+  ].filter(Boolean).join(' ');
+}
+
+export function contentSecurityPolicy(permissions: SandboxPermissions = DEFAULT_PERMISSIONS): string {
+  const remote = permissions.network ? ' https:' : '';
+  return [
+    "default-src 'none'",
+    `script-src 'unsafe-inline' 'unsafe-eval' data: blob: ${ALWAYS_ALLOWED_SCRIPTS}${remote}`,
+    `style-src 'unsafe-inline' data: blob:${remote}`,
+    `img-src data: blob:${remote}`,
+    `font-src data: blob:${remote}`,
+    `media-src data: blob:${remote}`,
+    `connect-src data: blob:${remote}`,
+    // Not covered by default-src, so it has to be closed explicitly
+    `form-action ${permissions.network ? 'https:' : "'none'"}`,
+    'worker-src blob:',
+    "base-uri 'none'",
+  ].join('; ');
+}
+
+// The meta tag has to come before anything that loads resources, so it goes first in <head>
+export function injectCsp(html: string, permissions: SandboxPermissions = DEFAULT_PERMISSIONS): string {
+  return injectIntoHead(html, `<meta http-equiv="Content-Security-Policy" content="${contentSecurityPolicy(permissions)}">`);
+}
@@ -0,0 +1,365 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Creation, CreationInput, CreationSummary, Revision } from '../components/CreationHistory';
+import { hydrateCreation } from './creations';
+import { ValidationReport } from './validator';
+import { SandboxPermissions } from './sandbox';
+import { AppData } from './appData';
+import { MathGameSpec } from './mathGame';
+import { AppPlan } from './plan';
+import { GameSession } from './gameEvents';
+
+// Creations live in IndexedDB, split across stores so the history strip can be
+// listed without reading any HTML or binary input:
+//   creations - CreationSummary records with their thumbnail (small, listed on startup)
+//   documents - current html, the revision list, validation report, sandbox permissions and math game spec
+//   inputs    - the uploaded images/PDFs as Blobs, in order
+//   appData   - what each generated app saved through its shimmed localStorage (v2)
+//   sessions  - plays of each generated game reported through the game event bridge (v3)
+const DB_NAME = 'bring-to-life';
+const DB_VERSION = 3;
+const SUMMARY_STORE = 'creations';
+const DOCUMENT_STORE = 'documents';
+const INPUT_STORE = 'inputs';
+const APP_DATA_STORE = 'appData';
+const SESSION_STORE = 'sessions';
+const ALL_STORES = [SUMMARY_STORE, DOCUMENT_STORE, INPUT_STORE, APP_DATA_STORE, SESSION_STORE];
+
+// Where history was kept before IndexedDB; migrated once and then removed
+const LEGACY_STORAGE_KEY = 'gemini_app_history';
+
+interface StoredDocument {
+  id: string;
+  html: string;
+  revisions?: Revision[];
+  validation?: ValidationReport;
+  permissions?: SandboxPermissions;
+  mathGame?: MathGameSpec;
+  plan?: AppPlan;
+}
+
+interface StoredInputFile {
+  blob: Blob;
+  name: string;
+  caption?: string;
+}
+
+// Records written before multi-file input hold a single `blob` instead of `files`
+interface StoredInput {
+  id: string;
+  files?: StoredInputFile[];
+  blob?: Blob;
+}
+
+export interface StorageUsage {
+  usage: number; // Bytes used by this origin
+  quota: number; // Bytes available to this origin
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      // Create whatever the stored version is missing, so every older database upgrades in place
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        for (const store of ALL_STORES) {
+          if (!db.objectStoreNames.contains(store)) db.createObjectStore(store, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // Let another tab upgrade the schema; the next call here reopens at the new version
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Run work inside a transaction and settle once it commits. Quota failures surface
+// here as a QuotaExceededError when the transaction aborts.
+async function withTransaction(
+  stores: string[],
+  mode: IDBTransactionMode,
+  work: (tx: IDBTransaction) => void
+): Promise<void> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(stores, mode);
+    tx.oncomplete = () => resolve();
+    tx.onabort = () => reject(tx.error);
+    tx.onerror = () => reject(tx.error);
+    work(tx);
+  });
+}
+
+export function isQuotaExceeded(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'QuotaExceededError';
+}
+
+export function dataUrlToBlob(dataUrl: string): Blob {
+  const [header, data] = dataUrl.split(',');
+  const mimeType = header.match(/^data:([^;]+)/)?.[1] ?? 'application/octet-stream';
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: mimeType });
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+function summarize(creation: Creation, inputFiles: StoredInputFile[]): CreationSummary {
+  const revisionBytes = (creation.revisions ?? []).reduce((sum, r) => sum + r.html.length, 0);
+  const inputBytes = inputFiles.reduce((sum, f) => sum + f.blob.size, 0);
+  const thumbnailBytes = creation.thumbnail?.length ?? 0;
+  return {
+    id: creation.id,
+    name: creation.name,
+    description: creation.description,
+    notes: creation.notes,
+    prompt: creation.prompt,
+    pinned: creation.pinned,
+    tags: creation.tags,
+    timestamp: creation.timestamp,
+    inputMimeType: inputFiles[0]?.blob.type,
+    inputCount: inputFiles.length,
+    revisionCount: creation.revisions?.length ?? 1,
+    sizeBytes: creation.html.length + revisionBytes + inputBytes + thumbnailBytes,
+    thumbnail: creation.thumbnail,
+  };
+}
+
+async function readInputs(stored: StoredInput, fallbackName: string): Promise<CreationInput[]> {
+  const files = stored.files ?? (stored.blob ? [{ blob: stored.blob, name: fallbackName }] : []);
+  return Promise.all(files.map(async file => ({
+    name: file.name,
+    mimeType: file.blob.type,
+    dataUrl: await blobToDataUrl(file.blob),
+    caption: file.caption,
+  })));
+}
+
+// Newest first
+export async function listCreations(): Promise<CreationSummary[]> {
+  const db = await openDb();
+  const summaries = await promisify<CreationSummary[]>(
+    db.transaction(SUMMARY_STORE).objectStore(SUMMARY_STORE).getAll()
+  );
+  return summaries.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+}
+
+// Loads the html, revisions and inputs of a single creation on demand
+export async function loadCreation(id: string): Promise<Creation | null> {
+  const db = await openDb();
+  const tx = db.transaction([SUMMARY_STORE, DOCUMENT_STORE, INPUT_STORE]);
+  const [summary, document, input] = await Promise.all([
+    promisify<CreationSummary | undefined>(tx.objectStore(SUMMARY_STORE).get(id)),
+    promisify<StoredDocument | undefined>(tx.objectStore(DOCUMENT_STORE).get(id)),
+    promisify<StoredInput | undefined>(tx.objectStore(INPUT_STORE).get(id)),
+  ]);
+  if (!summary || !document) return null;
+
+  return {
+    id: summary.id,
+    name: summary.name,
+    description: summary.description,
+    notes: summary.notes,
+    prompt: summary.prompt,
+    pinned: summary.pinned,
+    tags: summary.tags,
+    timestamp: summary.timestamp,
+    html: document.html,
+    revisions: document.revisions,
+    validation: document.validation,
+    permissions: document.permissions,
+    mathGame: document.mathGame,
+    plan: document.plan,
+    thumbnail: summary.thumbnail,
+    inputs: input ? await readInputs(input, summary.name) : undefined,
+  };
+}
+
+// Writes a creation and returns its new summary. The input blobs are only written the
+// first time, since refinements never change them.
+export async function saveCreation(creation: Creation): Promise<CreationSummary> {
+  const inputFiles: StoredInputFile[] = (creation.inputs ?? []).map(input => ({
+    blob: dataUrlToBlob(input.dataUrl),
+    name: input.name,
+    caption: input.caption,
+  }));
+  const summary = summarize(creation, inputFiles);
+  const document: StoredDocument = {
+    id: creation.id,
+    html: creation.html,
+    revisions: creation.revisions,
+    validation: creation.validation,
+    permissions: creation.permissions,
+    mathGame: creation.mathGame,
+    plan: creation.plan,
+  };
+  const input: StoredInput = { id: creation.id, files: inputFiles };
+
+  await withTransaction([SUMMARY_STORE, DOCUMENT_STORE, INPUT_STORE], 'readwrite', tx => {
+    tx.objectStore(SUMMARY_STORE).put(summary);
+    tx.objectStore(DOCUMENT_STORE).put(document);
+    if (inputFiles.length > 0) {
+      const inputs = tx.objectStore(INPUT_STORE);
+      inputs.getKey(creation.id).onsuccess = (e) => {
+        if ((e.target as IDBRequest).result === undefined) {
+          inputs.put(input);
+        }
+      };
+    }
+  });
+
+  return summary;
+}
+
+export type CreationDetails = Partial<Pick<CreationSummary, 'name' | 'pinned' | 'tags'>>;
+
+// Rename, pin or tag a creation. Only the summary holds these, so nothing else is rewritten.
+export async function updateCreationDetails(id: string, details: CreationDetails): Promise<CreationSummary | null> {
+  let updated: CreationSummary | null = null;
+  await withTransaction([SUMMARY_STORE], 'readwrite', tx => {
+    const store = tx.objectStore(SUMMARY_STORE);
+    store.get(id).onsuccess = (e) => {
+      const summary = (e.target as IDBRequest<CreationSummary | undefined>).result;
+      if (!summary) return;
+      updated = { ...summary, ...details };
+      store.put(updated);
+    };
+  });
+  return updated;
+}
+
+// Ids of creations whose current html contains the query, ignoring case. Walks the
+// documents one at a time so the whole archive's html is never in memory at once.
+export async function searchDocuments(query: string): Promise<string[]> {
+  const needle = query.toLowerCase();
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const matches: string[] = [];
+    const request = db.transaction(DOCUMENT_STORE).objectStore(DOCUMENT_STORE).openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return resolve(matches);
+      const document = cursor.value as StoredDocument;
+      if (document.html.toLowerCase().includes(needle)) matches.push(document.id);
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Attach a captured thumbnail without rewriting the creation. Resolves with the updated
+// summary, or null when the creation is gone or has changed since `timestamp`.
+export async function saveThumbnail(id: string, thumbnail: string, timestamp: Date): Promise<CreationSummary | null> {
+  let updated: CreationSummary | null = null;
+  await withTransaction([SUMMARY_STORE], 'readwrite', tx => {
+    const store = tx.objectStore(SUMMARY_STORE);
+    store.get(id).onsuccess = (e) => {
+      const summary = (e.target as IDBRequest<CreationSummary | undefined>).result;
+      if (!summary || summary.timestamp.getTime() !== timestamp.getTime()) return;
+      const sizeBytes = summary.sizeBytes - (summary.thumbnail?.length ?? 0) + thumbnail.length;
+      updated = { ...summary, thumbnail, sizeBytes };
+      store.put(updated);
+    };
+  });
+  return updated;
+}
+
+export async function deleteCreations(ids: string[]): Promise<void> {
+  await withTransaction(ALL_STORES, 'readwrite', tx => {
+    for (const id of ids) {
+      for (const store of ALL_STORES) tx.objectStore(store).delete(id);
+    }
+  });
+}
+
+export async function loadAppData(id: string): Promise<AppData> {
+  const db = await openDb();
+  const record = await promisify<{ id: string; data: AppData } | undefined>(
+    db.transaction(APP_DATA_STORE).objectStore(APP_DATA_STORE).get(id)
+  );
+  return record?.data ?? {};
+}
+
+// An empty store is deleted rather than kept around as an empty record
+export async function saveAppData(id: string, data: AppData): Promise<void> {
+  await withTransaction([APP_DATA_STORE], 'readwrite', tx => {
+    const store = tx.objectStore(APP_DATA_STORE);
+    if (Object.keys(data).length === 0) store.delete(id);
+    else store.put({ id, data });
+  });
+}
+
+export async function loadGameSessions(id: string): Promise<GameSession[]> {
+  const db = await openDb();
+  const record = await promisify<{ id: string; sessions: GameSession[] } | undefined>(
+    db.transaction(SESSION_STORE).objectStore(SESSION_STORE).get(id)
+  );
+  return record?.sessions ?? [];
+}
+
+export async function saveGameSessions(id: string, sessions: GameSession[]): Promise<void> {
+  await withTransaction([SESSION_STORE], 'readwrite', tx => {
+    const store = tx.objectStore(SESSION_STORE);
+    if (sessions.length === 0) store.delete(id);
+    else store.put({ id, sessions });
+  });
+}
+
+export async function getStorageUsage(): Promise<StorageUsage | null> {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+}
+
+// One-time move of the old localStorage history into IndexedDB. The legacy key is only
+// removed after every creation was written, so a failed migration is retried next load.
+export async function migrateLegacyHistory(): Promise<number> {
+  const saved = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!saved) return 0;
+
+  let legacy: Creation[];
+  try {
+    legacy = JSON.parse(saved).map(hydrateCreation);
+  } catch (e) {
+    console.error("Discarding unreadable legacy history", e);
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+    return 0;
+  }
+
+  for (const creation of legacy) {
+    await saveCreation(creation);
+  }
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+  return legacy.length;
+}
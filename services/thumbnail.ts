@@ -0,0 +1,128 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { BRIDGE_SOURCE, injectIntoHead } from './previewBridge';
+import { injectCsp } from './sandbox';
+import { injectStorageShim } from './appData';
+
+// Previews run with an opaque origin, so the host can't read their pixels or DOM. To take a
+// screenshot, the app is loaded once more in an invisible frame with a script that, shortly
+// after load, serializes its own rendered DOM (canvases inlined as images) and posts it back.
+// The host draws that markup into a canvas through an SVG <foreignObject>.
+
+// The size the app is rendered at, and the stored thumbnail (2x the history card)
+const VIEWPORT_WIDTH = 1024;
+const VIEWPORT_HEIGHT = 640;
+const THUMBNAIL_WIDTH = 352;
+const THUMBNAIL_HEIGHT = 220;
+const THUMBNAIL_QUALITY = 0.7;
+
+// Time for the app to render its first screen, and the limit for the whole capture
+const RENDER_DELAY_MS = 1500;
+const CAPTURE_TIMEOUT_MS = 10000;
+
+interface SnapshotMessage {
+  source: typeof BRIDGE_SOURCE;
+  type: 'thumbnail-snapshot';
+  markup: string | null;
+}
+
+const CAPTURE_SCRIPT = `
+(function () {
+  var snapshot = function () {
+    var clone = document.documentElement.cloneNode(true);
+    var canvases = document.querySelectorAll('canvas');
+    var copies = clone.querySelectorAll('canvas');
+    for (var i = 0; i < canvases.length; i++) {
+      var image = document.createElement('img');
+      var rect = canvases[i].getBoundingClientRect();
+      try { image.src = canvases[i].toDataURL(); } catch (e) {}
+      image.className = canvases[i].className;
+      image.setAttribute('style', (canvases[i].getAttribute('style') || '') + ';width:' + rect.width + 'px;height:' + rect.height + 'px');
+      copies[i].parentNode.replaceChild(image, copies[i]);
+    }
+    var inert = clone.querySelectorAll('script, noscript, iframe, video, audio, object, embed');
+    for (var j = 0; j < inert.length; j++) inert[j].parentNode.removeChild(inert[j]);
+    return new XMLSerializer().serializeToString(clone);
+  };
+  window.addEventListener('load', function () {
+    setTimeout(function () {
+      var markup = null;
+      try { markup = snapshot(); } catch (e) {}
+      parent.postMessage({ source: '${BRIDGE_SOURCE}', type: 'thumbnail-snapshot', markup: markup }, '*');
+    }, ${RENDER_DELAY_MS});
+  });
+})();
+`.replace(/\n\s*/g, '');
+
+function isSnapshotMessage(data: unknown): data is SnapshotMessage {
+  const message = data as SnapshotMessage | null;
+  return message?.source === BRIDGE_SOURCE && message.type === 'thumbnail-snapshot';
+}
+
+// Loads the app in a frame the user can't see and resolves with its serialized DOM
+function renderSnapshot(html: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const frame = document.createElement('iframe');
+    // Only scripts: no dialogs, popups or form submissions from a frame nobody sees.
+    // It stays inside the viewport because browsers pause animation in offscreen frames.
+    frame.setAttribute('sandbox', 'allow-scripts');
+    frame.setAttribute('aria-hidden', 'true');
+    frame.tabIndex = -1;
+    Object.assign(frame.style, {
+      position: 'fixed', top: '0', left: '0', zIndex: '-1', opacity: '0', pointerEvents: 'none', border: '0',
+      width: `${VIEWPORT_WIDTH}px`, height: `${VIEWPORT_HEIGHT}px`,
+    });
+
+    const cleanup = () => {
+      clearTimeout(timeout);
+      window.removeEventListener('message', handleMessage);
+      frame.remove();
+    };
+    const handleMessage = (event: MessageEvent) => {
+      if (event.source !== frame.contentWindow || !isSnapshotMessage(event.data)) return;
+      cleanup();
+      if (event.data.markup) resolve(event.data.markup);
+      else reject(new Error('The app could not be serialized'));
+    };
+    const timeout = setTimeout(() => {
+      cleanup();
+      reject(new Error('Timed out rendering the app for a thumbnail'));
+    }, CAPTURE_TIMEOUT_MS);
+
+    window.addEventListener('message', handleMessage);
+    // The app gets empty throwaway storage so a screenshot never touches its saved data
+    const script = `<script data-thumbnail-capture>${CAPTURE_SCRIPT}</script>`;
+    frame.srcdoc = injectCsp(injectStorageShim(injectIntoHead(html, script), {}, false));
+    document.body.appendChild(frame);
+  });
+}
+
+async function rasterize(markup: string): Promise<string> {
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${VIEWPORT_WIDTH}" height="${VIEWPORT_HEIGHT}"><foreignObject width="100%" height="100%">${markup}</foreignObject></svg>`;
+  const image = new Image();
+  image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  await image.decode();
+
+  const canvas = document.createElement('canvas');
+  canvas.width = THUMBNAIL_WIDTH;
+  canvas.height = THUMBNAIL_HEIGHT;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+  // Apps without a background would otherwise turn black in the JPEG
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT);
+  ctx.drawImage(image, 0, 0, THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT);
+  return canvas.toDataURL('image/jpeg', THUMBNAIL_QUALITY);
+}
+
+// Captures run one at a time so a backlog of old creations never loads several apps at once
+let captureQueue: Promise<unknown> = Promise.resolve();
+
+// Resolves with a JPEG data URL of the app's first screen
+export function captureThumbnail(html: string): Promise<string> {
+  const capture = captureQueue.then(async () => rasterize(await renderSnapshot(html)));
+  captureQueue = capture.catch(() => undefined);
+  return capture;
+}
@@ -0,0 +1,207 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Checks generated html against the rules in the system instruction and repairs what can
+// be fixed without guessing. Repairs are plain string edits so the rest of the document,
+// and therefore line numbers in runtime errors, stays exactly as the model wrote it.
+
+export type ValidationIssueCode = 'leading-prose' | 'trailing-prose' | 'missing-doctype' | 'truncated' | 'external-resource';
+
+export interface ValidationIssue {
+  code: ValidationIssueCode;
+  severity: 'error' | 'warning';
+  message: string;
+  url?: string; // For external resources
+  repaired: boolean;
+}
+
+export interface ValidationReport {
+  issues: ValidationIssue[];
+}
+
+// The system instruction explicitly allows Tailwind from its CDN
+const ALLOWED_HOSTS = new Set(['cdn.tailwindcss.com']);
+
+const FONT_HOSTS = new Set(['fonts.googleapis.com', 'fonts.gstatic.com', 'use.typekit.net']);
+const FONT_FILE = /\.(woff2?|ttf|otf|eot)(\?|#|$)/i;
+
+// Neutral stand-in for an external image: a light frame with a picture glyph
+const PLACEHOLDER_IMAGE = 'data:image/svg+xml,' + encodeURIComponent(
+  '<svg xmlns="http://www.w3.org/2000/svg" width="160" height="120" viewBox="0 0 160 120">' +
+  '<rect width="160" height="120" fill="#e4e4e7"/>' +
+  '<path d="M52 84l20-26 14 18 10-12 16 20z" fill="#a1a1aa"/><circle cx="100" cy="44" r="8" fill="#a1a1aa"/>' +
+  '</svg>'
+);
+
+const hostOf = (url: string): string => {
+  try {
+    return new URL(url, 'https://localhost').hostname;
+  } catch {
+    return '';
+  }
+};
+
+function isExternal(url: string): boolean {
+  const trimmed = url.trim();
+  return /^(?:https?:)?\/\//i.test(trimmed) && !ALLOWED_HOSTS.has(hostOf(trimmed));
+}
+
+const isFont = (url: string) => FONT_FILE.test(url) || FONT_HOSTS.has(hostOf(url));
+
+const CSS_URL = /url\(\s*(['"]?)(.*?)\1\s*\)/gi;
+const CSS_IMPORT = /@import\s+(['"])(.*?)\1/gi;
+const IMG_SRC = /(<img\b[^>]*?\bsrc\s*=\s*)(["'])(.*?)\2/gi;
+
+// A run of the document: markup, or the body of a <script> or <style> element
+interface Segment {
+  text: string;
+  rawText?: 'script' | 'style';
+}
+
+// Script and style bodies are raw text that runs to the first closing tag, as the browser reads
+// them, so tags inside JS strings ('<img src=...>', '<script>') are not taken for markup.
+// `unclosed` names the element the document ends inside, if any.
+function splitRawText(html: string): { segments: Segment[]; unclosed?: 'script' | 'style' } {
+  const segments: Segment[] = [];
+  const open = /<(script|style)\b[^>]*>/gi;
+  let index = 0;
+  let match: RegExpExecArray | null;
+  while ((match = open.exec(html))) {
+    const tag = match[1].toLowerCase() as 'script' | 'style';
+    const bodyStart = match.index + match[0].length;
+    segments.push({ text: html.slice(index, bodyStart) });
+    const length = html.slice(bodyStart).search(new RegExp(`</${tag}\\b`, 'i'));
+    if (length === -1) {
+      segments.push({ text: html.slice(bodyStart), rawText: tag });
+      return { segments, unclosed: tag };
+    }
+    segments.push({ text: html.slice(bodyStart, bodyStart + length), rawText: tag });
+    index = open.lastIndex = bodyStart + length;
+  }
+  segments.push({ text: html.slice(index) });
+  return { segments };
+}
+
+// Swap external images for the placeholder, in <img> tags and in CSS url() values. Script bodies
+// are left alone, so app code that builds markup or styles in strings is never changed.
+function repairExternalImages(html: string, issues: ValidationIssue[]): string {
+  const replaced = new Set<string>();
+
+  const replaceImages = (markup: string) => markup.replace(IMG_SRC, (match, prefix: string, quote: string, url: string) => {
+    if (!isExternal(url)) return match;
+    replaced.add(url);
+    return `${prefix}${quote}${PLACEHOLDER_IMAGE}${quote}`;
+  });
+  const replaceCssUrls = (css: string) => css.replace(CSS_URL, (match, _quote: string, url: string) => {
+    if (!isExternal(url) || isFont(url)) return match;
+    replaced.add(url);
+    return 'none';
+  });
+  const replaceStyleAttributes = (markup: string) => markup.replace(
+    /(\bstyle\s*=\s*)(["'])(.*?)\2/gi,
+    (_m, prefix: string, quote: string, css: string) => prefix + quote + replaceCssUrls(css) + quote
+  );
+
+  const repaired = splitRawText(html).segments.map(segment =>
+    segment.rawText === 'style' ? replaceCssUrls(segment.text)
+      : segment.rawText === 'script' ? segment.text
+      : replaceStyleAttributes(replaceImages(segment.text))
+  ).join('');
+
+  replaced.forEach(url => issues.push({
+    code: 'external-resource',
+    severity: 'error',
+    message: `External image from ${hostOf(url)} was replaced with a placeholder.`,
+    url,
+    repaired: true,
+  }));
+  return repaired;
+}
+
+// Whatever external references survive the repairs: scripts, stylesheets and fonts
+function findExternalResources(html: string, issues: ValidationIssue[]) {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const found = new Map<string, string>(); // url -> what it is
+
+  const add = (url: string | null, kind: string) => {
+    if (url && isExternal(url) && !found.has(url)) found.set(url, isFont(url) ? 'font' : kind);
+  };
+
+  doc.querySelectorAll('script[src]').forEach(el => add(el.getAttribute('src'), 'script'));
+  doc.querySelectorAll('link[href]').forEach(el => {
+    const rel = (el.getAttribute('rel') ?? '').toLowerCase();
+    if (/preconnect|dns-prefetch/.test(rel)) return;
+    add(el.getAttribute('href'), rel.includes('stylesheet') ? 'stylesheet' : 'resource');
+  });
+  doc.querySelectorAll('img[src], source[src], video[src], audio[src]').forEach(el => add(el.getAttribute('src'), 'media file'));
+  doc.querySelectorAll('video[poster]').forEach(el => add(el.getAttribute('poster'), 'media file'));
+
+  const css = [
+    ...Array.from(doc.querySelectorAll('style'), el => el.textContent ?? ''),
+    ...Array.from(doc.querySelectorAll('[style]'), el => el.getAttribute('style') ?? ''),
+  ].join('\n');
+  for (const match of css.matchAll(CSS_URL)) add(match[2], 'CSS resource');
+  for (const match of css.matchAll(CSS_IMPORT)) add(match[2], 'stylesheet');
+
+  found.forEach((kind, url) => issues.push({
+    code: 'external-resource',
+    severity: kind === 'script' || kind === 'media file' ? 'error' : 'warning',
+    message: kind === 'font'
+      ? `External font from ${hostOf(url)}; text falls back to system fonts when offline.`
+      : `External ${kind} from ${hostOf(url)}; the app breaks when it can't be loaded.`,
+    url,
+    repaired: false,
+  }));
+}
+
+export function validateHtml(input: string): { html: string; report: ValidationReport } {
+  const issues: ValidationIssue[] = [];
+  let html = input.trim();
+
+  // Prose the model wrote around the document ("Here is your app: ...")
+  const start = html.search(/<!doctype|<html[\s>]/i);
+  if (start > 0) {
+    issues.push({ code: 'leading-prose', severity: 'warning', message: 'Removed text that came before the document.', repaired: true });
+    html = html.slice(start);
+  }
+  const end = html.toLowerCase().lastIndexOf('</html>');
+  if (end !== -1 && html.slice(end + '</html>'.length).trim()) {
+    issues.push({ code: 'trailing-prose', severity: 'warning', message: 'Removed text that came after </html>.', repaired: true });
+    html = html.slice(0, end + '</html>'.length);
+  }
+
+  if (!/^<!doctype html/i.test(html)) {
+    issues.push({ code: 'missing-doctype', severity: 'warning', message: 'Added the missing <!DOCTYPE html>.', repaired: true });
+    // On the same line, so line numbers in runtime errors still match the model's output
+    html = `<!DOCTYPE html>${html}`;
+  }
+
+  // An unclosed script or style means the output was cut off mid-code; that can't be repaired
+  const { unclosed } = splitRawText(html);
+  if (unclosed) {
+    issues.push({
+      code: 'truncated',
+      severity: 'error',
+      message: `The output ends inside a <${unclosed}> block, so the app is probably incomplete. Try refining or regenerating.`,
+      repaired: false,
+    });
+  } else if (!/<\/html>\s*$/i.test(html)) {
+    const missing = /<\/body>/i.test(html) ? '</html>' : '</body>\n</html>';
+    issues.push({
+      code: 'truncated',
+      severity: 'warning',
+      message: `The document ended without ${missing.replace('\n', '')} and may be cut off. Added the closing tags.`,
+      repaired: true,
+    });
+    html = `${html}\n${missing}`;
+  }
+
+  html = repairExternalImages(html, issues);
+  findExternalResources(html, issues);
+
+  return { html, report: { issues } };
+}
+
+export const hasUnrepairedIssues = (report: ValidationReport) => report.issues.some(issue => !issue.repaired);
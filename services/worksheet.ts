@@ -0,0 +1,34 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { BRIDGE_SOURCE, injectIntoHead } from './previewBridge';
+import { SandboxPermissions } from './sandbox';
+
+// Printable worksheets are shown in a sandboxed frame like every generated document. The
+// host can't call print() across the opaque origin, so it asks the frame to print itself,
+// which opens the browser's print dialog (and its Save as PDF option) for the worksheet alone.
+
+// Worksheets are static pages; dialogs stay on because the sandbox gates print() behind them
+export const WORKSHEET_PERMISSIONS: SandboxPermissions = {
+  popups: false,
+  forms: false,
+  modals: true,
+  network: false,
+};
+
+const PRINT_SCRIPT = `
+(function () {
+  window.addEventListener('message', function (e) {
+    if (e.source === parent && e.data && e.data.source === '${BRIDGE_SOURCE}' && e.data.type === 'print') window.print();
+  });
+})();
+`.replace(/\n\s*/g, '');
+
+export function injectPrintBridge(html: string): string {
+  return injectIntoHead(html, `<script data-print-bridge>${PRINT_SCRIPT}</script>`);
+}
+
+export function requestPrint(frame: HTMLIFrameElement | null) {
+  frame?.contentWindow?.postMessage({ source: BRIDGE_SOURCE, type: 'print' }, '*');
+}